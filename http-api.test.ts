@@ -0,0 +1,80 @@
+import * as assert from 'node:assert';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { test } from 'node:test';
+import { HttpApiFormat, buildHttpRequestBody, extractHttpResponseText } from './http-api';
+
+test('builds an OpenAI chat completions request', () => {
+	assert.deepStrictEqual(buildHttpRequestBody('openai', 'gpt-test', 'Hello', 0.2), {
+		model: 'gpt-test',
+		messages: [{ role: 'user', content: 'Hello' }],
+		temperature: 0.2,
+		stream: false
+	});
+});
+
+test('builds an Ollama generate request', () => {
+	assert.deepStrictEqual(buildHttpRequestBody('ollama', 'llama3', 'Hello', 0.7), {
+		model: 'llama3',
+		prompt: 'Hello',
+		stream: false,
+		options: { temperature: 0.7 }
+	});
+});
+
+test('extracts text from OpenAI responses', () => {
+	assert.strictEqual(extractHttpResponseText('openai', { choices: [{ message: { role: 'assistant', content: 'Answer' } }] }), 'Answer');
+	assert.strictEqual(extractHttpResponseText('openai', { choices: [{ text: 'Legacy answer' }] }), 'Legacy answer');
+});
+
+test('extracts text from Ollama responses', () => {
+	assert.strictEqual(extractHttpResponseText('ollama', { model: 'llama3', response: 'Answer', done: true }), 'Answer');
+	assert.strictEqual(extractHttpResponseText('ollama', { message: { role: 'assistant', content: 'Chat answer' } }), 'Chat answer');
+});
+
+test('returns undefined for responses without text', () => {
+	for (const format of ['openai', 'ollama'] as HttpApiFormat[]) {
+		assert.strictEqual(extractHttpResponseText(format, null), undefined);
+		assert.strictEqual(extractHttpResponseText(format, 'text'), undefined);
+		assert.strictEqual(extractHttpResponseText(format, { error: 'model not found' }), undefined);
+	}
+	assert.strictEqual(extractHttpResponseText('openai', { choices: [] }), undefined);
+	assert.strictEqual(extractHttpResponseText('openai', { choices: [{ message: { content: 42 } }] }), undefined);
+	assert.strictEqual(extractHttpResponseText('ollama', { response: null }), undefined);
+});
+
+test('round-trips both formats through a local stub server', async () => {
+	const received: { url: string; body: Record<string, unknown> }[] = [];
+	const server = createServer((request, response) => {
+		let data = '';
+		request.on('data', chunk => data += chunk);
+		request.on('end', () => {
+			const body = JSON.parse(data);
+			received.push({ url: request.url || '', body });
+			response.setHeader('Content-Type', 'application/json');
+			response.end(JSON.stringify(request.url === '/api/generate'
+				? { model: body.model, response: `echo: ${body.prompt}`, done: true }
+				: { choices: [{ message: { role: 'assistant', content: `echo: ${body.messages[0].content}` } }] }));
+		});
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+
+	try {
+		const endpoints: Record<HttpApiFormat, string> = {
+			openai: `http://127.0.0.1:${port}/v1/chat/completions`,
+			ollama: `http://127.0.0.1:${port}/api/generate`
+		};
+		for (const format of ['openai', 'ollama'] as HttpApiFormat[]) {
+			const response = await fetch(endpoints[format], {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(buildHttpRequestBody(format, 'stub-model', 'ping', 0))
+			});
+			assert.strictEqual(extractHttpResponseText(format, await response.json()), 'echo: ping');
+		}
+		assert.deepStrictEqual(received.map(request => request.body.model), ['stub-model', 'stub-model']);
+	} finally {
+		await new Promise(resolve => server.close(resolve));
+	}
+});
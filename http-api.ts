@@ -0,0 +1,41 @@
+// 'openai' posts to a chat completions endpoint; 'ollama' posts to Ollama's /api/generate
+export type HttpApiFormat = 'openai' | 'ollama';
+
+// JSON body of a non-streaming completion request in the given format
+export function buildHttpRequestBody(format: HttpApiFormat, model: string, prompt: string, temperature: number): Record<string, unknown> {
+	if (format === 'ollama') {
+		return {
+			model,
+			prompt,
+			stream: false,
+			options: { temperature }
+		};
+	}
+	return {
+		model,
+		messages: [{ role: 'user', content: prompt }],
+		temperature,
+		stream: false
+	};
+}
+
+function field(value: unknown, key: string): unknown {
+	return value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+/**
+ * The completion text of a parsed response in the given format. Ollama's chat
+ * shape and the legacy completions `text` field are accepted too. Returns
+ * undefined when the response has no text.
+ */
+export function extractHttpResponseText(format: HttpApiFormat, data: unknown): string | undefined {
+	let text: unknown;
+	if (format === 'ollama') {
+		text = field(data, 'response') ?? field(field(data, 'message'), 'content');
+	} else {
+		const choices = field(data, 'choices');
+		const choice = Array.isArray(choices) ? choices[0] : undefined;
+		text = field(field(choice, 'message'), 'content') ?? field(choice, 'text');
+	}
+	return typeof text === 'string' ? text : undefined;
+}
@@ -0,0 +1,136 @@
+import * as assert from 'node:assert';
+import { test } from 'node:test';
+import { LinkEdit, applyLinkEdits, findProtectedRanges, findRelatedLine, findSourceText, locateText, revertLinkInsertions } from './link-text';
+
+const NOTE = `---
+mood: Anna
+---
+Met Anna for coffee.
+
+\`\`\`
+Anna in a code block
+\`\`\`
+
+Inline \`Anna\` and [[Anna]] and [Anna](anna.md).
+Later Anna called again.
+`;
+
+test('skips Related lines in frontmatter and code', () => {
+	const content = '---\nRelated: yaml\n---\n```\nRelated: code\n```\nText\nRelated: [[Anna]]\n';
+	assert.deepStrictEqual(findRelatedLine(content, findProtectedRanges(content)), {
+		text: 'Related: [[Anna]]',
+		index: content.indexOf('Related: [[Anna]]')
+	});
+	assert.strictEqual(findRelatedLine('---\nRelated: yaml\n---\nText\n', findProtectedRanges('---\nRelated: yaml\n---\nText\n')), null);
+});
+
+function linkEdit(content: string, text: string, occurrence: number, target: string): LinkEdit {
+	let from = -1;
+	for (let i = 0; i <= occurrence; i++) {
+		from = content.indexOf(text, from + 1);
+	}
+	return { from, to: from + text.length, text: `[[${target}|${text}]]` };
+}
+
+test('protects frontmatter, code and existing links', () => {
+	const ranges = findProtectedRanges(NOTE);
+	const covered = (text: string) => {
+		const start = NOTE.indexOf(text);
+		return ranges.some(([from, to]) => start >= from && start + text.length <= to);
+	};
+
+	assert.ok(covered('mood: Anna'));
+	assert.ok(covered('Anna in a code block'));
+	assert.ok(covered('`Anna`'));
+	assert.ok(covered('[[Anna]]'));
+	assert.ok(covered('[Anna](anna.md)'));
+	assert.ok(!covered('Met Anna for coffee.'));
+	assert.ok(!covered('Later Anna called again.'));
+});
+
+test('protects an unterminated fence to the end of the note', () => {
+	const content = 'Anna\n```\nAnna';
+	assert.deepStrictEqual(findProtectedRanges(content), [[5, content.length]]);
+});
+
+test('locates the unprotected occurrence closest to the offset', () => {
+	const ranges = findProtectedRanges(NOTE);
+	const first = NOTE.indexOf('Met Anna') + 4;
+	const last = NOTE.indexOf('Later Anna') + 6;
+
+	assert.strictEqual(locateText(NOTE, 'Anna', ranges), first);
+	assert.strictEqual(locateText(NOTE, 'Anna', ranges, NOTE.length), last);
+	assert.strictEqual(locateText(NOTE, 'code block', ranges), -1);
+});
+
+test('finds source text exactly or ignoring spacing, case and emphasis', () => {
+	assert.deepStrictEqual(findSourceText(NOTE, 'Anna called'), { text: 'Anna called', offset: NOTE.indexOf('Anna called') });
+	assert.deepStrictEqual(findSourceText('We **met  anna** today', 'met Anna'), { text: 'met  anna', offset: 5 });
+	assert.strictEqual(findSourceText(NOTE, 'Anna in a code block'), null);
+	assert.strictEqual(findSourceText(NOTE, 'mood: Anna'), null);
+});
+
+test('does not match source text across a line break', () => {
+	assert.strictEqual(findSourceText('I met\nAnna today', 'met Anna'), null);
+	const content = 'I met\nAnna today, then **met anna** again';
+	assert.deepStrictEqual(findSourceText(content, 'met Anna'), { text: 'met anna', offset: content.indexOf('met anna') });
+});
+
+function linkedNote() {
+	return applyLinkEdits(NOTE, [
+		linkEdit(NOTE, 'Anna', 1, 'People/Anna'),
+		linkEdit(NOTE, 'coffee', 0, 'Coffee'),
+		linkEdit(NOTE, 'Anna', 6, 'People/Anna')
+	]);
+}
+
+test('records where several links in one batch end up', () => {
+	const { updated: after, insertions } = linkedNote();
+
+	assert.ok(after.includes('Met [[People/Anna|Anna]] for [[Coffee|coffee]].'));
+	assert.ok(after.includes('Later [[People/Anna|Anna]] called again.'));
+	for (const insertion of insertions) {
+		assert.strictEqual(after.substring(insertion.offset, insertion.offset + insertion.inserted.length), insertion.inserted);
+	}
+	assert.deepStrictEqual(revertLinkInsertions(after, after, insertions), { content: NOTE, count: 3 });
+});
+
+test('reverts after the note was edited above the links', () => {
+	const { updated: after, insertions } = linkedNote();
+	const edited = after.replace('---\nMet', '---\n[[People/Anna|Anna]] wrote first.\nMet');
+
+	assert.deepStrictEqual(revertLinkInsertions(after, edited, insertions), {
+		content: NOTE.replace('---\nMet', '---\n[[People/Anna|Anna]] wrote first.\nMet'),
+		count: 3
+	});
+});
+
+test('reverts after the note was edited below the links', () => {
+	const { updated: after, insertions } = linkedNote();
+	const edited = `${after}A new line mentioning [[People/Anna|Anna]].\n`;
+
+	assert.deepStrictEqual(revertLinkInsertions(after, edited, insertions), {
+		content: `${NOTE}A new line mentioning [[People/Anna|Anna]].\n`,
+		count: 3
+	});
+});
+
+test('reverts around an edit between the links', () => {
+	const { updated: after, insertions } = linkedNote();
+	const edited = after.replace('Inline', 'Some inline');
+
+	assert.deepStrictEqual(revertLinkInsertions(after, edited, insertions), {
+		content: NOTE.replace('Inline', 'Some inline'),
+		count: 3
+	});
+});
+
+test('leaves links inside edited text alone', () => {
+	const { updated: after, insertions } = linkedNote();
+	const edited = after.replace('[[Coffee|coffee]]', '[[Coffee|tea]]');
+
+	assert.deepStrictEqual(revertLinkInsertions(after, edited, insertions), {
+		content: NOTE.replace('coffee', '[[Coffee|tea]]'),
+		count: 2
+	});
+});
@@ -0,0 +1,159 @@
+export interface LinkEdit {
+	from: number;
+	to: number;
+	text: string;
+}
+
+// A link inserted into a note: its offset in the content after insertion and the text it replaced
+export interface LinkInsertion {
+	offset: number;
+	inserted: string;
+	original: string;
+}
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Ranges of note content that links must not be inserted into: frontmatter,
+ * fenced and inline code, and existing wiki-links, embeds and markdown links.
+ */
+export function findProtectedRanges(content: string): [number, number][] {
+	const ranges: [number, number][] = [];
+
+	const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---(\r?\n|$)/);
+	if (frontmatter) {
+		ranges.push([0, frontmatter[0].length]);
+	}
+
+	// Fenced code blocks, including an unterminated fence running to the end
+	const fence = /^(```|~~~)[^\n]*\n[\s\S]*?(^\1[^\n]*$|(?![\s\S]))/gm;
+	const patterns = [fence, /`[^`\n]+`/g, /!?\[\[[^\]\n]*\]\]/g, /!?\[[^\]\n]*\]\([^)\n]*\)/g];
+	for (const pattern of patterns) {
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(content)) !== null) {
+			ranges.push([match.index, match.index + match[0].length]);
+			if (match[0].length === 0) {
+				pattern.lastIndex++;
+			}
+		}
+	}
+
+	return ranges;
+}
+
+function isProtected(ranges: [number, number][], start: number, end: number): boolean {
+	return ranges.some(([rangeStart, rangeEnd]) => start < rangeEnd && end > rangeStart);
+}
+
+// The first "Related:" line outside protected ranges, and its offset
+export function findRelatedLine(content: string, ranges: [number, number][]): { text: string; index: number } | null {
+	const pattern = /^Related:[^\n]*$/gm;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(content)) !== null) {
+		// Only the label counts: the links already on the line are protected themselves
+		if (!isProtected(ranges, match.index, match.index + 'Related:'.length)) {
+			return { text: match[0], index: match.index };
+		}
+	}
+	return null;
+}
+
+/**
+ * Find the occurrence of text outside protected ranges closest to nearOffset,
+ * or -1 if every occurrence is protected.
+ */
+export function locateText(content: string, text: string, ranges: [number, number][], nearOffset = 0): number {
+	let best = -1;
+	for (let index = content.indexOf(text); index !== -1; index = content.indexOf(text, index + 1)) {
+		if (!isProtected(ranges, index, index + text.length) && (best === -1 || Math.abs(index - nearOffset) < Math.abs(best - nearOffset))) {
+			best = index;
+		}
+	}
+	return best;
+}
+
+/**
+ * Locate a suggestion's source text in the note, outside code, frontmatter and
+ * existing links. Tries an exact match first, then a case-insensitive match
+ * within a single line that ignores differences in spacing and emphasis
+ * markers. Returns the text as it appears in the note and its offset, or null.
+ */
+export function findSourceText(content: string, sourceText: string): { text: string; offset: number } | null {
+	const ranges = findProtectedRanges(content);
+	const exact = locateText(content, sourceText, ranges);
+	if (exact !== -1) {
+		return { text: sourceText, offset: exact };
+	}
+
+	const words = sourceText.replace(/[*_`]/g, '').split(/\s+/).filter(word => word.length > 0);
+	if (words.length === 0) {
+		return null;
+	}
+
+	const pattern = new RegExp(words.map(escapeRegExp).join('(?:[^\\S\\r\\n]|[*_`])+'), 'gi');
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(content)) !== null) {
+		if (!isProtected(ranges, match.index, match.index + match[0].length)) {
+			return { text: match[0], offset: match.index };
+		}
+	}
+	return null;
+}
+
+/**
+ * Apply non-overlapping edits to the content and record where each inserted
+ * link ends up, after the growth of the links before it.
+ */
+export function applyLinkEdits(content: string, edits: LinkEdit[]): { updated: string; insertions: LinkInsertion[] } {
+	// Apply from the end so earlier offsets stay valid
+	const sorted = edits.slice().sort((a, b) => b.from - a.from);
+	let updated = content;
+	for (const edit of sorted) {
+		updated = updated.substring(0, edit.from) + edit.text + updated.substring(edit.to);
+	}
+
+	const insertions: LinkInsertion[] = [];
+	let growth = 0;
+	for (const edit of sorted.reverse()) {
+		insertions.push({ offset: edit.from + growth, inserted: edit.text, original: content.substring(edit.from, edit.to) });
+		growth += edit.text.length - (edit.to - edit.from);
+	}
+	return { updated, insertions };
+}
+
+/**
+ * Turn inserted links back into their original text, by their offsets in the
+ * content they were inserted into. Changes made since are treated as one
+ * edited region between the common prefix and suffix of the two versions;
+ * links overlapping it are left alone. Returns the new content and the number
+ * of links reverted.
+ */
+export function revertLinkInsertions(inserted: string, current: string, insertions: LinkInsertion[]): { content: string; count: number } {
+	const shortest = Math.min(inserted.length, current.length);
+	let prefix = 0;
+	while (prefix < shortest && inserted[prefix] === current[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < shortest - prefix && inserted[inserted.length - 1 - suffix] === current[current.length - 1 - suffix]) {
+		suffix++;
+	}
+	const editedEnd = inserted.length - suffix;
+	const shift = current.length - inserted.length;
+
+	let content = current;
+	let count = 0;
+	// From the end, so earlier offsets stay valid
+	for (const insertion of insertions.slice().sort((a, b) => b.offset - a.offset)) {
+		const end = insertion.offset + insertion.inserted.length;
+		const offset = end <= prefix ? insertion.offset : insertion.offset >= editedEnd ? insertion.offset + shift : -1;
+		if (offset === -1 || content.substring(offset, offset + insertion.inserted.length) !== insertion.inserted) {
+			continue;
+		}
+		content = content.substring(0, offset) + insertion.original + content.substring(offset + insertion.inserted.length);
+		count++;
+	}
+	return { content, count };
+}
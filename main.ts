@@ -1,742 +1,6621 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile } from 'obsidian';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { App, Editor, FuzzySuggestModal, ItemView, MarkdownRenderer, MarkdownView, Modal, Notice, Platform, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, debounce, getAllTags, moment, normalizePath, parseFrontMatterAliases, parseYaml, requestUrl, stringifyYaml } from 'obsidian';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import { HttpApiFormat, buildHttpRequestBody, extractHttpResponseText } from './http-api';
+import { LinkEdit, LinkInsertion, applyLinkEdits, escapeRegExp, findProtectedRanges, findRelatedLine, findSourceText, locateText, revertLinkInsertions } from './link-text';
 
 interface Connection {
 	sourceFile: string;
 	targetFile: string;
 	sourceText: string;
+	// Where sourceText was found in the note when the suggestion was validated
+	sourceOffset?: number;
 	targetText: string;
 	reason: string;
 	confidence: number;
 	connectionType: string;
 }
 
-interface JournalAnalyzerSettings {
-	journalFolder: string;
-	metaFolder: string;
-	claudeCodePath: string;
-	daysToAnalyze: number;
-	connectionMinConfidence: number;
-	connectionTypes: string[];
+interface LedgerDecision {
+	source: string;
+	target: string;
+	// Source text, normalized with normalizeLedgerText
+	text: string;
+	decision: 'accepted' | 'rejected';
+	decidedAt: number;
 }
 
-const DEFAULT_SETTINGS: JournalAnalyzerSettings = {
-	journalFolder: 'journal',
-	metaFolder: 'journal/meta',
-	claudeCodePath: '/Users/timmcelreath/Repos/claude-scripts/claude-wrapper.sh',
-	daysToAnalyze: 30,
-	connectionMinConfidence: 70,
-	connectionTypes: ['thematic', 'temporal', 'entity']
+// Accepted and rejected suggestions, keyed by ledgerKey
+type ConnectionLedger = Record<string, LedgerDecision>;
+
+type RollupPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+interface RollupRange {
+	period: RollupPeriod;
+	startDate: string;
+	endDate: string;
+	label: string;
 }
 
-export default class JournalAnalyzerPlugin extends Plugin {
-	settings: JournalAnalyzerSettings;
+// Where per-entry scores are read from: inferred by the model, or recorded by hand in frontmatter
+type ScoreSource = 'infer' | 'frontmatter';
 
-	async onload() {
-		await this.loadSettings();
+// Where inferred scores are written: the entry's frontmatter or the plugin's data
+type ScoreStorage = 'frontmatter' | 'data';
 
-		// Add command to analyze recent journal entries
-		this.addCommand({
-			id: 'analyze-recent-journal',
-			name: 'Analyze Recent Journal Entries',
-			callback: () => {
-				this.analyzeRecentJournal();
-			}
-		});
+interface StoredEntryScores {
+	date: string;
+	scores: Record<string, number>;
+}
 
-		// Add command to analyze date range
-		this.addCommand({
-			id: 'analyze-date-range',
-			name: 'Analyze Journal Date Range',
-			callback: () => {
-				new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
-					await this.analyzeJournalRange(startDate, endDate);
-				}).open();
-			}
-		});
+// Inferred scores kept in plugin data, by entry path
+type EntryScoreStore = Record<string, StoredEntryScores>;
 
-		// Add command to find missing connections
-		this.addCommand({
-			id: 'find-missing-connections',
-			name: 'Find Missing Connections',
-			callback: () => {
-				this.findMissingConnections();
-			}
-		});
+interface ScoredEntry {
+	file: TFile;
+	date: string;
+	scores: Record<string, number>;
+}
 
-		// Add command for quick journal entry
-		this.addCommand({
-			id: 'quick-journal-entry',
-			name: 'Quick Journal Entry',
-			callback: () => {
-				new QuickJournalModal(this.app, this).open();
-			}
-		});
+type EntityType = 'person' | 'organization' | 'place' | 'project';
 
-		// Add settings tab
-		this.addSettingTab(new JournalAnalyzerSettingTab(this.app, this));
-	}
+interface EntityMention {
+	path: string;
+	date: string;
+	context: string;
+}
 
-	async analyzeRecentJournal() {
-		const days = this.settings.daysToAnalyze;
-		const endDate = new Date();
-		const startDate = new Date();
-		startDate.setDate(startDate.getDate() - days);
+interface EntityRecord {
+	name: string;
+	type: EntityType;
+	aliases: string[];
+	mentions: EntityMention[];
+}
 
-		const startDateStr = this.formatDate(startDate);
-		const endDateStr = this.formatDate(endDate);
+interface EntityIndex {
+	// By canonical name
+	entities: Record<string, EntityRecord>;
+	// Content hash of each entry when its entities were last extracted
+	processed: Record<string, string>;
+}
 
-		await this.analyzeJournalRange(startDateStr, endDateStr);
-	}
+interface ExtractedEntity {
+	entry: number;
+	name: string;
+	type: EntityType;
+	aliases: string[];
+	context: string;
+}
 
-	async analyzeJournalRange(startDate: string, endDate: string) {
-		const progressModal = new ProgressModal(this.app);
-		progressModal.open();
+// How Quick Journal rewrites an entry before saving
+type ExpansionMode = 'none' | 'cleanup' | 'reflect' | 'expand';
 
-		try {
-			// Get all journal files in date range
-			progressModal.updateProgress('Finding journal entries...');
-			const journalFiles = await this.getJournalFilesInRange(startDate, endDate);
+interface QuickJournalDraft {
+	text: string;
+	mode: ExpansionMode;
+	// The model's output, kept until the entry is saved or the expansion rejected
+	expansion: string | null;
+	updatedAt: number;
+}
 
-			if (journalFiles.length === 0) {
-				progressModal.close();
-				new Notice('No journal entries found in the specified range');
-				return;
-			}
+type QuestionKind = 'question' | 'next-step';
+
+interface TrackedQuestion {
+	id: string;
+	text: string;
+	kind: QuestionKind;
+	raisedOn: string;
+	// The meta note or journal entry the question came from
+	source: string;
+	status: 'open' | 'resolved';
+	resolvedOn: string | null;
+	// Paths of entries that addressed the question
+	addressedIn: string[];
+	notes: string[];
+}
 
-			// Show which entries will be analyzed
-			const fileNames = journalFiles.map(f => f.basename).join(', ');
-			progressModal.updateProgress(`Found ${journalFiles.length} entries: ${fileNames}`);
-			await new Promise(resolve => setTimeout(resolve, 1000)); // Brief pause to show files
+interface QuestionLedger {
+	nextId: number;
+	questions: Record<string, TrackedQuestion>;
+}
 
-			// Read all journal content
-			progressModal.updateProgress('Reading journal entries...');
-			const journalContent = await this.readJournalFiles(journalFiles);
+interface CitationCheck {
+	body: string;
+	valid: number;
+	invalid: { target: string; reason: string }[];
+	uncited: string[];
+}
 
-			// Create analysis prompt for Claude Code
-			progressModal.updateProgress('Analyzing with Claude Code...\n(This may take 30-60 seconds)');
-			const analysis = await this.analyzeWithClaudeCode(journalContent, startDate, endDate);
+interface ChatTurn {
+	question: string;
+	answer: string;
+	// Paths of the entries sent with the question
+	sources: string[];
+}
 
-			// Create meta note with analysis
-			progressModal.updateProgress('Creating analysis note...');
-			await this.createMetaNote(analysis, startDate, endDate);
+interface DateRange {
+	startDate: string;
+	endDate: string;
+}
 
-			progressModal.close();
-			new Notice('Journal analysis complete!');
-		} catch (error) {
-			progressModal.close();
-			console.error('Error analyzing journal:', error);
-			new Notice(`Error analyzing journal: ${error.message}`);
-		}
-	}
+interface ThemeChange {
+	name: string;
+	before: number;
+	after: number;
+}
 
-	async getJournalFilesInRange(startDate: string, endDate: string): Promise<TFile[]> {
-		const journalFolder = this.app.vault.getAbstractFileByPath(this.settings.journalFolder);
-		if (!journalFolder) {
-			throw new Error(`Journal folder not found: ${this.settings.journalFolder}`);
-		}
+interface ThemeComparison {
+	appeared: ThemeChange[];
+	disappeared: ThemeChange[];
+	grew: ThemeChange[];
+	shrank: ThemeChange[];
+}
 
-		const allFiles = this.app.vault.getMarkdownFiles();
-		const journalFiles = allFiles.filter(file => {
-			if (!file.path.startsWith(this.settings.journalFolder)) {
-				return false;
-			}
+interface ComparisonAnalysis {
+	summary: string;
+	patternShifts: string[];
+	questions: string[];
+}
 
-			// Extract date from filename (assumes YYYY-MM-DD.md format)
-			const dateMatch = file.basename.match(/(\d{4}-\d{2}-\d{2})/);
-			if (!dateMatch) {
-				return false;
-			}
+interface MetaNoteContent {
+	body: string;
+	frontmatter: Record<string, unknown>;
+}
 
-			const fileDate = dateMatch[1];
-			return fileDate >= startDate && fileDate <= endDate;
-		});
+interface ConnectionReviewScope {
+	folder: string;
+	tag: string;
+	onlyUnlinked: boolean;
+}
 
-		return journalFiles.sort((a, b) => a.basename.localeCompare(b.basename));
-	}
+interface ReviewSuggestion extends Connection {
+	id: string;
+	applied: boolean;
+}
 
-	async readJournalFiles(files: TFile[]): Promise<string> {
-		let content = '';
+/**
+ * A vault-wide connection pass. Notes are taken from pending one at a time and
+ * the state is saved after each, so a cancelled run can be resumed.
+ */
+interface ConnectionReviewState {
+	startedAt: number;
+	scope: ConnectionReviewScope;
+	total: number;
+	pending: string[];
+	failed: { path: string; error: string }[];
+	suggestions: ReviewSuggestion[];
+	reportPath: string;
+}
 
-		for (const file of files) {
-			const fileContent = await this.app.vault.read(file);
-			content += `\n\n## Entry: ${file.basename}\n\n${fileContent}\n`;
-		}
+// Where the target note records a link back to the source: nowhere, a "## Related" section, or a frontmatter list
+type ReciprocalLinkMode = 'off' | 'section' | 'frontmatter';
 
-		return content;
-	}
+// 'alias' turns the source text into [[target|source text]]; 'related' lists the target on a Related: line
+type LinkInsertMode = 'alias' | 'related';
 
-	async analyzeWithClaudeCode(content: string, startDate: string, endDate: string): Promise<string> {
-		const prompt = `Analyze the following journal entries from ${startDate} to ${endDate}.
 
-Please provide:
+// The last set of links added, kept so it can be reverted. Applying reviewed
+// links adds one batch across every note they touched.
+interface LinkBatch {
+	notes: LinkedNote[];
+}
 
-1. **Recurring Themes** - Identify major themes that appear multiple times
-2. **Pattern Recognition** - Note behavioral patterns, decision-making patterns, emotional patterns
-3. **Key Insights** - What stands out as significant across entries
-4. **Suggested Connections** - Identify entries or concepts that should be linked together
-5. **Questions to Consider** - Based on the patterns, what questions might be worth exploring
+interface LinkedNote {
+	path: string;
+	before: string;
+	after: string;
+	// Each link's offset in `after` and the text it replaced, for reverting after later edits
+	insertions: LinkInsertion[];
+}
 
-Journal Entries:
-${content}
+interface ConnectionAnalysis {
+	connections: Connection[];
+	// Number of suggestions dropped during validation, by reason
+	discarded: Record<string, number>;
+}
 
-Please format your response in markdown with clear sections.`;
+const CONNECTION_TYPES = ['thematic', 'temporal', 'entity', 'causal'];
 
-		try {
-			// Write prompt to temp file to avoid command line length limits
-			const os = require('os');
-			const fs = require('fs');
-			const tempFile = `${os.tmpdir()}/journal-analysis-prompt-${Date.now()}.txt`;
+// Passages from each candidate note included in the connection prompt
+const PASSAGES_PER_CANDIDATE = 2;
 
-			await fs.promises.writeFile(tempFile, prompt);
+interface JournalAnalyzerSettings {
+	journalFolder: string;
+	metaFolder: string;
+	claudeCodePath: string;
+	daysToAnalyze: number;
+	connectionMinConfidence: number;
+	connectionTypes: string[];
+	claudeCodeArgs: string;
+	timeoutSeconds: number;
+	journalDateFormat: string;
+	journalFolderPattern: string;
+	journalTemplate: string;
+	useDailyNotesSettings: boolean;
+	useFrontmatterDate: boolean;
+	frontmatterDateField: string;
+	backend: BackendType;
+	httpEndpoint: string;
+	httpApiFormat: HttpApiFormat;
+	httpModel: string;
+	httpHeaders: string;
+	httpTemperature: number;
+	maxPromptTokens: number;
+	batchStrategy: BatchStrategy;
+	cacheTtlDays: number;
+	promptTemplateFolder: string;
+	analysisTemplate: string;
+	connectionCandidateCount: number;
+	connectionPassageLength: number;
+	linkInsertMode: LinkInsertMode;
+	reciprocalLinks: ReciprocalLinkMode;
+	weeklyReviewEnabled: boolean;
+	// 0 (Sunday) to 6 (Saturday)
+	weeklyReviewDay: number;
+	monthlyReviewEnabled: boolean;
+	scheduleCatchUpLimit: number;
+	// Comma-separated
+	scoreDimensions: string;
+	scoreSource: ScoreSource;
+	scoreStorage: ScoreStorage;
+	entityFolder: string;
+	// Comma-separated headings whose sections are never sent to the model
+	privateHeadings: string;
+	// One name (or comma-separated names of one person) or /regex/ per line
+	redactionList: string;
+	quickJournalMode: ExpansionMode;
+	jobConcurrency: number;
+	// 0 keeps every record
+	runHistoryDays: number;
+	storeRunContent: boolean;
+}
 
-			// Call Claude Code CLI with the prompt file
-			const { stdout, stderr } = await execAsync(`cat "${tempFile}" | ${this.settings.claudeCodePath}`);
+type BackendType = 'cli' | 'http';
 
-			// Clean up temp file
-			await fs.promises.unlink(tempFile);
+interface JournalLayout {
+	// Vault-relative folder without a trailing slash ('' for the vault root)
+	folder: string;
+	// Moment format for an entry's path below the folder, without .md
+	pathFormat: string;
+	// Template note for new entries ('' for none)
+	template: string;
+}
 
-			if (stderr) {
-				console.warn('Claude Code stderr:', stderr);
-			}
+// Options saved by the core Daily Notes plugin
+interface DailyNotesOptions {
+	folder?: string;
+	format?: string;
+	template?: string;
+}
 
-			if (!stdout || stdout.trim().length === 0) {
-				throw new Error('Claude Code returned empty response');
-			}
+// The part of Obsidian's internal core plugin registry used to read those options
+interface InternalPlugins {
+	getPluginById?: (id: string) => { enabled?: boolean; instance?: { options?: DailyNotesOptions } } | null | undefined;
+}
 
-			// Add metadata footer
-			const entriesCount = content.split('## Entry:').length - 1;
-			return `${stdout.trim()}
+interface JournalEntry {
+	file: TFile;
+	date: string;
+	content: string;
+}
 
----
-*Generated by Journal Analyzer Plugin*
-*Entries analyzed: ${entriesCount}*
-*Generated: ${new Date().toLocaleString()}*`;
+interface JournalBatch {
+	entries: JournalEntry[];
+	startDate: string;
+	endDate: string;
+}
 
-		} catch (error) {
-			console.error('Error calling Claude Code:', error);
-			throw new Error(`Failed to analyze with Claude Code: ${error.message}`);
-		}
-	}
+// 'size' packs as many entries as fit the budget; 'week' also starts a new batch each week
+type BatchStrategy = 'size' | 'week';
 
-	async createMetaNote(analysis: string, startDate: string, endDate: string) {
-		// Ensure meta folder exists
-		const metaFolder = this.settings.metaFolder;
-		if (!this.app.vault.getAbstractFileByPath(metaFolder)) {
-			await this.app.vault.createFolder(metaFolder);
-		}
+interface AnalysisRunOptions {
+	signal?: AbortSignal;
+	onProgress?: (message: string) => void;
+	// Analysis prompt template to use instead of the configured default
+	templateName?: string;
+	log?: RunLog;
+}
 
-		// Create filename based on date range
-		const filename = `${metaFolder}/analysis-${startDate}-to-${endDate}.md`;
+type PromptKind = 'analysis' | 'ask' | 'connections' | 'comparison' | 'expansion' | 'cleanup' | 'reflection' | 'scoring' | 'entities';
 
-		// Create frontmatter
-		const frontmatter = `---
-date: ${this.formatDate(new Date())}
-type: journal-analysis
-tags: [meta, analysis, journal]
-start_date: ${startDate}
-end_date: ${endDate}
----
+interface AnalysisTheme {
+	name: string;
+	count: number;
+	description: string;
+}
 
-`;
+interface AnalysisPattern {
+	type: string;
+	description: string;
+}
 
-		const fullContent = frontmatter + analysis;
+interface AnalysisConnection {
+	from: string;
+	to: string;
+	reason: string;
+}
 
-		// Create or overwrite the file
-		const existingFile = this.app.vault.getAbstractFileByPath(filename);
-		if (existingFile instanceof TFile) {
-			await this.app.vault.modify(existingFile, fullContent);
-		} else {
-			await this.app.vault.create(filename, fullContent);
-		}
+interface EntryDetails {
+	date: string;
+	// 1 (very low) to 10 (very high)
+	mood: number | null;
+	people: string[];
+	projects: string[];
+}
 
-		// Open the new file
-		const file = this.app.vault.getAbstractFileByPath(filename);
-		if (file instanceof TFile) {
-			await this.app.workspace.getLeaf().openFile(file);
-		}
-	}
+// The model's report on an open question from an earlier analysis
+interface FollowUp {
+	id: string;
+	status: 'resolved' | 'open';
+	// Dates of the entries that address the question
+	entries: string[];
+	note: string;
+}
 
-	formatDate(date: Date): string {
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, '0');
-		const day = String(date.getDate()).padStart(2, '0');
-		return `${year}-${month}-${day}`;
-	}
+interface StructuredAnalysis {
+	summary: string;
+	themes: AnalysisTheme[];
+	patterns: AnalysisPattern[];
+	insights: string[];
+	connections: AnalysisConnection[];
+	questions: string[];
+	entries: EntryDetails[];
+	followUps: FollowUp[];
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
+interface JournalAnalysis {
+	// Markdown written below the meta note's frontmatter
+	body: string;
+	// Null when the model's output wasn't valid structured JSON
+	data: StructuredAnalysis | null;
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-	}
+interface AnalysisCacheEntry {
+	output: string;
+	createdAt: number;
+}
 
-	async findMissingConnections() {
-		const progressModal = new ProgressModal(this.app);
-		progressModal.open();
+// Model outputs keyed by a hash of the backend identity and the full prompt
+type AnalysisCache = Record<string, AnalysisCacheEntry>;
 
-		try {
-			// Get current active file
-			progressModal.updateProgress('Finding current note...');
-			const activeFile = this.app.workspace.getActiveFile();
+interface ModelBackend {
+	run(prompt: string, options?: ModelRunOptions): Promise<string>;
+}
 
-			if (!activeFile) {
-				progressModal.close();
-				new Notice('No active file. Please open a note to analyze.');
-				return;
-			}
+interface ModelRunOptions {
+	// Called with the full output received so far, each time more arrives
+	onOutput?: (output: string) => void;
+	signal?: AbortSignal;
+	// Records the call in the run history, under the prompt template it was built from
+	log?: RunLog;
+	template?: string;
+}
 
-			// Get all markdown files in vault
-			progressModal.updateProgress('Reading vault files...');
-			const allFiles = this.app.vault.getMarkdownFiles();
-			const connections = await this.analyzeConnections(activeFile, allFiles, progressModal);
+// Enough to start a run again with the same inputs
+type RunInputs =
+	| { command: 'analysis'; startDate: string; endDate: string; templateName?: string }
+	| { command: 'rollup'; period: RollupPeriod; startDate: string; endDate: string }
+	| { command: 'comparison'; first: DateRange; second: DateRange }
+	| { command: 'scoring'; startDate: string; endDate: string }
+	| { command: 'entities'; startDate: string; endDate: string }
+	| { command: 'connections'; path: string }
+	| { command: 'connection-review' }
+	| { command: 'ask'; question: string }
+	| { command: 'expansion'; mode: ExpansionMode };
+
+type RunStatus = 'done' | 'failed' | 'cancelled';
+
+interface RunCall {
+	template: string;
+	startedAt: number;
+	durationMs: number;
+	status: 'ok' | 'cached' | 'failed' | 'cancelled';
+	error?: string;
+	promptChars: number;
+	outputChars: number;
+	// Only with Store Prompts and Responses on; exactly what was sent and received, after redaction
+	prompt?: string;
+	response?: string;
+}
 
-			progressModal.close();
+// One line of the run history log
+interface RunRecord {
+	id: string;
+	title: string;
+	command: RunInputs['command'];
+	inputs: RunInputs;
+	backend: string;
+	startedAt: number;
+	durationMs: number;
+	status: RunStatus;
+	error?: string;
+	// Files sent to the model, with SHA-256 hashes of the content that was sent
+	files: { path: string; hash: string }[];
+	templates: string[];
+	calls: RunCall[];
+	outputChars: number;
+	outputFile?: string;
+}
 
-			if (connections.length === 0) {
-				new Notice('No connection suggestions found');
-			} else {
-				new ConnectionSuggestionModal(this.app, this, connections, activeFile).open();
-			}
-		} catch (error) {
-			progressModal.close();
-			console.error('Error finding connections:', error);
-			new Notice(`Error finding connections: ${error.message}`);
-		}
-	}
+type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
 
-	async analyzeConnections(currentFile: TFile, allFiles: TFile[], progressModal: ProgressModal): Promise<Connection[]> {
-		// Read current file content
-		const currentContent = await this.app.vault.read(currentFile);
+interface JobContext {
+	signal: AbortSignal;
+	progress: (message: string) => void;
+}
 
-		// Filter out current file and get a sample of other files
-		const otherFiles = allFiles.filter(f => f.path !== currentFile.path);
+interface RunJobContext extends JobContext {
+	log: RunLog;
+}
 
-		// Limit to recent files to avoid overwhelming Claude
-		const recentFiles = otherFiles
-			.sort((a, b) => b.stat.mtime - a.stat.mtime)
-			.slice(0, 50);
+// What a finished job reports, and how to open what it produced
+interface JobResult {
+	message: string;
+	open?: () => void | Promise<void>;
+	// Note the job wrote, recorded in the run history
+	outputPath?: string;
+}
 
-		progressModal.updateProgress(`Analyzing connections with ${recentFiles.length} recent notes...`);
+interface Job {
+	id: number;
+	// Jobs with the same key do the same work; only one may be queued or running
+	key: string;
+	title: string;
+	status: JobStatus;
+	progress: string;
+	result: JobResult | null;
+	error: string | null;
+	queuedAt: number;
+	startedAt: number | null;
+	finishedAt: number | null;
+	// Resolves once the job has finished, whatever its status
+	finished: Promise<void>;
+	// False for jobs whose view or dialog reports the outcome itself
+	notify: boolean;
+}
 
-		// Build context from other files
-		let context = `# Current Note: ${currentFile.basename}\n\n${currentContent}\n\n---\n\n# Other Notes:\n\n`;
+const DEFAULT_SETTINGS: JournalAnalyzerSettings = {
+	journalFolder: 'journal',
+	metaFolder: 'journal/meta',
+	claudeCodePath: '/Users/timmcelreath/Repos/claude-scripts/claude-wrapper.sh',
+	daysToAnalyze: 30,
+	connectionMinConfidence: 70,
+	connectionTypes: ['thematic', 'temporal', 'entity'],
+	claudeCodeArgs: '',
+	timeoutSeconds: 300,
+	jobConcurrency: 1,
+	runHistoryDays: 90,
+	storeRunContent: false,
+	journalDateFormat: 'YYYY-MM-DD',
+	journalFolderPattern: '',
+	journalTemplate: '',
+	useDailyNotesSettings: false,
+	useFrontmatterDate: true,
+	frontmatterDateField: 'date',
+	backend: 'cli',
+	httpEndpoint: 'http://localhost:11434/v1/chat/completions',
+	httpApiFormat: 'openai',
+	httpModel: 'llama3.1',
+	httpHeaders: '',
+	httpTemperature: 0.7,
+	maxPromptTokens: 24000,
+	batchStrategy: 'week',
+	cacheTtlDays: 30,
+	promptTemplateFolder: 'templates/journal-analyzer',
+	analysisTemplate: 'analysis',
+	connectionCandidateCount: 30,
+	connectionPassageLength: 600,
+	linkInsertMode: 'alias',
+	reciprocalLinks: 'off',
+	weeklyReviewEnabled: false,
+	weeklyReviewDay: 1,
+	monthlyReviewEnabled: false,
+	scheduleCatchUpLimit: 4,
+	scoreDimensions: 'mood, energy, stress, sleep',
+	scoreSource: 'infer',
+	scoreStorage: 'frontmatter',
+	entityFolder: 'entities',
+	privateHeadings: '',
+	redactionList: '',
+	quickJournalMode: 'expand'
+}
 
-		for (const file of recentFiles) {
-			const content = await this.app.vault.read(file);
-			// Include first 500 chars of each file for context
-			const preview = content.length > 500 ? content.substring(0, 500) + '...' : content;
-			context += `## ${file.path}\n${preview}\n\n`;
+// How often to check whether a scheduled review is due
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const JOBS_VIEW_TYPE = 'journal-analyzer-jobs';
+
+const RUN_HISTORY_VIEW_TYPE = 'journal-analyzer-run-history';
+
+// Most recent runs listed in the run history view
+const RUN_HISTORY_VIEW_LIMIT = 100;
+
+// Finished jobs kept for the jobs panel
+const MAX_FINISHED_JOBS = 20;
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+	queued: 'Queued',
+	running: 'Running',
+	done: 'Done',
+	failed: 'Failed',
+	cancelled: 'Cancelled'
+};
+
+/**
+ * Periods whose scheduled run day has arrived, oldest first, going back at
+ * most catchUpLimit periods per kind. They are the same weeks and months as
+ * rollups, so monthly rollups are built from the weekly reviews. A weekly
+ * review covers the weeks that ended before its run day; a monthly review
+ * (run on the 1st) covers the previous month.
+ */
+function getDuePeriods(today: string, settings: JournalAnalyzerSettings): RollupRange[] {
+	const weeks: RollupRange[] = [];
+	const months: RollupRange[] = [];
+	const day = moment(today, 'YYYY-MM-DD');
+
+	if (settings.weeklyReviewEnabled) {
+		const lastRun = day.clone().subtract((day.day() - settings.weeklyReviewDay + 7) % 7, 'days').format('YYYY-MM-DD');
+		// A week split at a month boundary counts as two periods
+		let date = moment(lastRun, 'YYYY-MM-DD').subtract(1, 'day').format('YYYY-MM-DD');
+		while (weeks.length < settings.scheduleCatchUpLimit) {
+			const week = getRollupRange('week', date);
+			if (week.endDate < lastRun) {
+				weeks.unshift(week);
+			}
+			date = moment(week.startDate, 'YYYY-MM-DD').subtract(1, 'day').format('YYYY-MM-DD');
 		}
+	}
 
-		progressModal.updateProgress('Analyzing with Claude Code...\n(This may take 30-60 seconds)');
+	if (settings.monthlyReviewEnabled) {
+		for (let i = settings.scheduleCatchUpLimit; i >= 1; i--) {
+			months.push(getRollupRange('month', day.clone().startOf('month').subtract(i, 'months').format('YYYY-MM-DD')));
+		}
+	}
 
-		const prompt = `Analyze the current note and suggest wiki-link connections to other notes in the vault.
+	// Weeks first, so the monthly reviews find them
+	return weeks.concat(months);
+}
 
-Current Note: ${currentFile.basename}
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ROLLUP_PERIODS: RollupPeriod[] = ['week', 'month', 'quarter', 'year'];
+
+function makeRollupRange(period: RollupPeriod, start: moment.Moment, end: moment.Moment): RollupRange {
+	const labels: Record<RollupPeriod, string> = {
+		week: `Week of ${start.format('YYYY-MM-DD')}`,
+		month: start.format('MMMM YYYY'),
+		quarter: `Q${start.quarter()} ${start.year()}`,
+		year: start.format('YYYY')
+	};
+	return {
+		period,
+		startDate: start.format('YYYY-MM-DD'),
+		endDate: end.format('YYYY-MM-DD'),
+		label: labels[period]
+	};
+}
 
-Your task:
-1. Find concepts, themes, people, or ideas in the current note that relate to other notes
-2. Only suggest connections that meet the minimum confidence threshold: ${this.settings.connectionMinConfidence}%
-3. Focus on connection types: ${this.settings.connectionTypes.join(', ')}
+/**
+ * The period containing a date. Weeks run Monday to Sunday but are split at
+ * month boundaries, so every week belongs to exactly one month.
+ */
+function getRollupRange(period: RollupPeriod, date: string): RollupRange {
+	const day = moment(date, 'YYYY-MM-DD', true);
+	if (period !== 'week') {
+		return makeRollupRange(period, day.clone().startOf(period), day.clone().endOf(period));
+	}
 
-For each suggested connection, provide:
-- sourceText: The exact text in current note that should be linked (5-30 words)
-- targetFile: The path to the note it should link to
-- targetText: The relevant text in the target note (5-30 words)
-- reason: Why this connection is meaningful (1 sentence)
-- confidence: Your confidence level (0-100)
-- connectionType: One of: thematic, temporal, entity, causal
+	const weekStart = moment(getWeekStart(date), 'YYYY-MM-DD');
+	const weekEnd = weekStart.clone().add(6, 'days');
+	const monthStart = day.clone().startOf('month');
+	const monthEnd = day.clone().endOf('month').startOf('day');
+	return makeRollupRange('week', moment.max(weekStart, monthStart), moment.min(weekEnd, monthEnd));
+}
 
-Return ONLY valid JSON array of connection objects. Example:
-[
-  {
-    "sourceFile": "${currentFile.path}",
-    "targetFile": "journal/2025-10-17.md",
-    "sourceText": "making art less intimidating",
-    "targetText": "Artsy's mission to make art accessible",
-    "reason": "Same core mission concept in different contexts",
-    "confidence": 95,
-    "connectionType": "thematic"
-  }
-]
+// The analyses a rollup is synthesized from: a month's weeks, or a quarter's or year's months
+function getRollupChildren(range: RollupRange): RollupRange[] {
+	if (range.period === 'week') {
+		return [];
+	}
 
-Context:
-${context}
+	const childPeriod: RollupPeriod = range.period === 'month' ? 'week' : 'month';
+	const children: RollupRange[] = [];
+	let date = range.startDate;
+	while (date <= range.endDate) {
+		const child = getRollupRange(childPeriod, date);
+		children.push(child);
+		date = moment(child.endDate, 'YYYY-MM-DD').add(1, 'day').format('YYYY-MM-DD');
+	}
+	return children;
+}
 
-Return JSON array only:`;
+// The rollups that summarize a period
+function getRollupParents(range: RollupRange): RollupRange[] {
+	switch (range.period) {
+		case 'week':
+			return [getRollupRange('month', range.startDate)];
+		case 'month':
+			return [getRollupRange('quarter', range.startDate), getRollupRange('year', range.startDate)];
+		case 'quarter':
+			return [getRollupRange('year', range.startDate)];
+		default:
+			return [];
+	}
+}
 
-		try {
-			const os = require('os');
-			const fs = require('fs');
-			const tempFile = `${os.tmpdir()}/connection-analysis-${Date.now()}.txt`;
+// Entries numbered for prompts whose response refers back to them by number
+function formatNumberedEntries(entries: JournalEntry[]): string {
+	return entries.map((entry, index) => `### Entry ${index + 1} (${entry.date})\n\n${entry.content}`).join('\n\n');
+}
 
-			await fs.promises.writeFile(tempFile, prompt);
+const ENTITY_TYPES: EntityType[] = ['person', 'organization', 'place', 'project'];
 
-			const { stdout, stderr } = await execAsync(`cat "${tempFile}" | ${this.settings.claudeCodePath}`);
+const ENTITY_MENTIONS_HEADING = '## Mentions';
 
-			await fs.promises.unlink(tempFile);
+// Known entities listed in the extraction prompt, most mentioned first
+const MAX_KNOWN_ENTITIES = 200;
 
-			if (stderr) {
-				console.warn('Claude Code stderr:', stderr);
-			}
+// Compare entity names without case, wiki-link brackets, display text or trailing punctuation
+function normalizeEntityName(name: string): string {
+	return name.trim().replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0]
+		.replace(/[.,;:!?]+$/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
 
-			if (!stdout || stdout.trim().length === 0) {
-				throw new Error('Claude Code returned empty response');
-			}
-
-			// Parse JSON response
-			const jsonMatch = stdout.match(/\[[\s\S]*\]/);
-			if (!jsonMatch) {
-				console.warn('No JSON found in response:', stdout);
-				return [];
-			}
-
-			const connections: Connection[] = JSON.parse(jsonMatch[0]);
-
-			// Filter by confidence threshold
-			return connections.filter(c => c.confidence >= this.settings.connectionMinConfidence);
-
-		} catch (error) {
-			console.error('Error analyzing connections:', error);
-			throw new Error(`Failed to analyze connections: ${error.message}`);
+// Every normalized name and alias, mapped to its entity's canonical name
+function buildEntityAliasMap(entities: Record<string, EntityRecord>): Map<string, string> {
+	const aliasMap = new Map<string, string>();
+	for (const entity of Object.values(entities)) {
+		for (const alias of entity.aliases) {
+			aliasMap.set(normalizeEntityName(alias), entity.name);
 		}
 	}
+	// Canonical names win over aliases that happen to match them
+	for (const entity of Object.values(entities)) {
+		aliasMap.set(normalizeEntityName(entity.name), entity.name);
+	}
+	return aliasMap;
+}
 
-	async insertWikiLink(file: TFile, sourceText: string, targetPath: string) {
-		const content = await this.app.vault.read(file);
-
-		// Create wiki-link to target
-		const targetBasename = targetPath.replace(/\.md$/, '');
-		const wikiLink = `[[${targetBasename}]]`;
+// An entity name as a file name, without characters that aren't allowed in note names or links
+function entityNoteName(name: string): string {
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+}
 
-		// Replace first occurrence of exact source text with wiki-linked version
-		const updatedContent = content.replace(sourceText, wikiLink);
+function parseExtractedEntities(items: unknown[], entryCount: number): ExtractedEntity[] {
+	const entities: ExtractedEntity[] = [];
 
-		if (updatedContent !== content) {
-			await this.app.vault.modify(file, updatedContent);
-			return true;
+	for (const item of items) {
+		if (!item || typeof item !== 'object') {
+			continue;
+		}
+		const raw = item as Record<string, unknown>;
+		const entry = typeof raw.entry === 'number' ? raw.entry : parseInt(String(raw.entry));
+		const name = asString(raw.name).replace(/^\[\[/, '').replace(/\]\]$/, '').split('|')[0].trim();
+		const type = asString(raw.type).toLowerCase() as EntityType;
+		if (!(entry >= 1 && entry <= entryCount) || !entityNoteName(name) || !ENTITY_TYPES.includes(type)) {
+			continue;
 		}
 
-		return false;
+		entities.push({
+			entry,
+			name,
+			type,
+			aliases: asStringArray(raw.aliases),
+			context: asString(raw.context).substring(0, 300)
+		});
 	}
 
-	async saveJournalEntry(entry: string): Promise<TFile> {
-		// Get today's date in YYYY-MM-DD format
-		const today = this.formatDate(new Date());
-		const journalPath = `${this.settings.journalFolder}/${today}.md`;
+	return entities;
+}
+
+/**
+ * The line range of the section under a heading such as "## Related": from the
+ * heading line to the next heading of the same or a higher level (exclusive).
+ * Returns null if the heading isn't in the lines.
+ */
+function findSection(lines: string[], heading: string): { headingIndex: number; endIndex: number } | null {
+	const headingIndex = lines.findIndex(text => text.trim() === heading);
+	if (headingIndex === -1) {
+		return null;
+	}
 
-		// Ensure journal folder exists
-		if (!this.app.vault.getAbstractFileByPath(this.settings.journalFolder)) {
-			await this.app.vault.createFolder(this.settings.journalFolder);
+	const level = (heading.match(/^#+/) || ['#'])[0].length;
+	const boundary = new RegExp(`^#{1,${level}}\\s`);
+	let endIndex = lines.length;
+	for (let i = headingIndex + 1; i < lines.length; i++) {
+		if (boundary.test(lines[i])) {
+			endIndex = i;
+			break;
 		}
+	}
+	return { headingIndex, endIndex };
+}
 
-		// Get or create today's journal file
-		const existingFile = this.app.vault.getAbstractFileByPath(journalPath);
+// Add a heading and its content at the end of a note
+function appendSection(content: string, heading: string, body: string): string {
+	const trimmed = content.replace(/\s+$/, '');
+	return `${trimmed}${trimmed ? '\n\n' : ''}${heading}\n\n${body}\n`;
+}
 
-		if (existingFile instanceof TFile) {
-			// File exists, append entry
-			const existingContent = await this.app.vault.read(existingFile);
-			const timestamp = new Date().toLocaleTimeString('en-US', {
-				hour: '2-digit',
-				minute: '2-digit',
-				hour12: true
-			});
-			const newContent = `${existingContent}\n\n## ${timestamp}\n\n${entry}`;
-			await this.app.vault.modify(existingFile, newContent);
-			return existingFile;
-		} else {
-			// Create new file with frontmatter
-			const frontmatter = `---
-date: ${today}
-type: journal
-tags: [journal]
----
+// Replace the content under a heading, or append the heading and content
+function replaceSection(content: string, heading: string, body: string): string {
+	const lines = content.split('\n');
+	const section = findSection(lines, heading);
+	if (!section) {
+		return appendSection(content, heading, body);
+	}
 
-# ${today}
+	const { headingIndex, endIndex } = section;
+	const after = lines.slice(endIndex);
+	return [...lines.slice(0, headingIndex + 1), '', body, ...(after.length > 0 ? ['', ...after] : [''])].join('\n');
+}
 
-${entry}
-`;
-			const newFile = await this.app.vault.create(journalPath, frontmatter);
-			return newFile;
-		}
+// Notes tagged with this (or a nested tag under it) are never sent to the model
+const PRIVATE_TAG = '#private';
+
+// Frontmatter field that excludes a note from analysis when false
+const ANALYZE_FIELD = 'analyze';
+
+/**
+ * Remove everything that must not reach the model: frontmatter, blocks
+ * wrapped in %%private%% ... %% (to the end of the note when unclosed), and
+ * sections under any of the private headings, down to the next heading of the
+ * same or a higher level.
+ */
+function stripPrivateContent(content: string, privateHeadings: string[]): string {
+	const stripped = stripFrontmatter(content).replace(/%%\s*private\s*%%[\s\S]*?(%%|$)/gi, '');
+	if (privateHeadings.length === 0) {
+		return stripped;
 	}
 
-	async expandJournalEntry(briefEntry: string): Promise<string> {
-		const prompt = `I have a brief journal entry that needs to be expanded into a detailed, thoughtful journal entry.
+	const headings = new Set(privateHeadings.map(heading => heading.trim().toLowerCase()));
+	const kept: string[] = [];
+	let skipLevel = 0;
+	for (const line of stripped.split('\n')) {
+		const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+		if (heading && skipLevel > 0 && heading[1].length <= skipLevel) {
+			skipLevel = 0;
+		}
+		if (heading && skipLevel === 0 && headings.has(heading[2].toLowerCase())) {
+			skipLevel = heading[1].length;
+		}
+		if (skipLevel === 0) {
+			kept.push(line);
+		}
+	}
+	return kept.join('\n');
+}
 
-Please expand the following brief notes into a well-structured journal entry with:
-- Clear headers and subheaders
-- Detailed analysis and context
-- Multiple perspectives on the situation
-- Self-reflection and honest assessment
-- Questions to consider
-- Next steps (immediate and strategic)
-- Related connections or themes
+/**
+ * Swaps names and patterns from the redaction list for placeholders before a
+ * prompt is sent, and swaps them back in the response. Each line of the list
+ * is either comma-separated names of one person (PERSON_n, numbered by line so
+ * placeholders stay stable between runs) or a /regex/flags whose distinct
+ * matches become REDACTED_n.
+ */
+class Redactor {
+	private names: { pattern: RegExp; placeholder: string }[] = [];
+	private patterns: RegExp[] = [];
+	private restored = new Map<string, string>();
+	private matches = new Map<string, string>();
+
+	constructor(list: string) {
+		let person = 0;
+		for (const line of list.split('\n').map(line => line.trim()).filter(line => line.length > 0)) {
+			const regex = line.match(/^\/(.+)\/([a-z]*)$/);
+			if (regex) {
+				try {
+					this.patterns.push(new RegExp(regex[1], regex[2].includes('g') ? regex[2] : `${regex[2]}g`));
+				} catch (error) {
+					console.warn(`Ignoring invalid redaction pattern ${line}:`, error.message);
+				}
+				continue;
+			}
 
-Format the response as markdown with proper structure. Include wiki-link suggestions in [[double brackets]] where appropriate for related concepts, people, or past entries.
+			const names = line.split(',').map(name => name.trim()).filter(name => name.length > 0);
+			if (names.length === 0) {
+				continue;
+			}
+			const placeholder = `PERSON_${++person}`;
+			this.restored.set(placeholder, names[0]);
+			for (const name of names) {
+				this.names.push({ pattern: new RegExp(`(^|[^\\w])${escapeRegExp(name)}(?=[^\\w]|$)`, 'gi'), placeholder });
+			}
+		}
 
-Brief entry:
-${briefEntry}
+		// Longer names first, so "Sam Kim" is replaced before "Sam"
+		this.names.sort((a, b) => b.pattern.source.length - a.pattern.source.length);
+	}
 
-Expanded journal entry:`;
+	get active(): boolean {
+		return this.names.length > 0 || this.patterns.length > 0;
+	}
 
-		try {
-			const os = require('os');
-			const fs = require('fs');
-			const tempFile = `${os.tmpdir()}/journal-expansion-${Date.now()}.txt`;
+	redact(text: string): string {
+		for (const { pattern, placeholder } of this.names) {
+			text = text.replace(pattern, (match, prefix: string) => `${prefix}${placeholder}`);
+		}
+		for (const pattern of this.patterns) {
+			text = text.replace(pattern, match => {
+				let placeholder = this.matches.get(match);
+				if (!placeholder) {
+					placeholder = `REDACTED_${this.matches.size + 1}`;
+					this.matches.set(match, placeholder);
+					this.restored.set(placeholder, match);
+				}
+				return placeholder;
+			});
+		}
+		return text;
+	}
 
-			await fs.promises.writeFile(tempFile, prompt);
+	restore(text: string): string {
+		return text.replace(/\b(?:PERSON|REDACTED)_\d+\b/g, placeholder => this.restored.get(placeholder) ?? placeholder);
+	}
+}
 
-			const { stdout, stderr } = await execAsync(`cat "${tempFile}" | ${this.settings.claudeCodePath}`);
+// Theme counts from a meta note's frontmatter, by lowercased theme name
+function readThemeCounts(frontmatter: Record<string, unknown>): Map<string, { name: string; count: number }> {
+	const counts = new Map<string, { name: string; count: number }>();
+	const themeCounts = frontmatter.theme_counts;
+	if (themeCounts && typeof themeCounts === 'object') {
+		for (const [name, count] of Object.entries(themeCounts as Record<string, unknown>)) {
+			counts.set(name.toLowerCase(), { name, count: typeof count === 'number' ? count : 1 });
+		}
+	}
+	// Themes without a count still count as present
+	for (const name of asStringArray(frontmatter.themes)) {
+		if (!counts.has(name.toLowerCase())) {
+			counts.set(name.toLowerCase(), { name, count: 1 });
+		}
+	}
+	return counts;
+}
 
-			await fs.promises.unlink(tempFile);
+// Themes matched by name between two analyses; renamed themes show up as one disappearing and one appearing
+function compareThemeCounts(first: Record<string, unknown>, second: Record<string, unknown>): ThemeComparison {
+	const before = readThemeCounts(first);
+	const after = readThemeCounts(second);
+	const comparison: ThemeComparison = { appeared: [], disappeared: [], grew: [], shrank: [] };
+
+	for (const key of new Set([...before.keys(), ...after.keys()])) {
+		const change = {
+			name: (after.get(key) || before.get(key) as { name: string }).name,
+			before: before.get(key)?.count || 0,
+			after: after.get(key)?.count || 0
+		};
+		if (change.before === 0) {
+			comparison.appeared.push(change);
+		} else if (change.after === 0) {
+			comparison.disappeared.push(change);
+		} else if (change.after > change.before) {
+			comparison.grew.push(change);
+		} else if (change.after < change.before) {
+			comparison.shrank.push(change);
+		}
+	}
 
-			if (stderr) {
-				console.warn('Claude Code stderr:', stderr);
-			}
+	const bySize = (a: ThemeChange, b: ThemeChange) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before);
+	comparison.appeared.sort(bySize);
+	comparison.disappeared.sort(bySize);
+	comparison.grew.sort(bySize);
+	comparison.shrank.sort(bySize);
+	return comparison;
+}
 
-			if (!stdout || stdout.trim().length === 0) {
-				throw new Error('Claude Code returned empty response');
-			}
+function renderThemeChanges(comparison: ThemeComparison): string {
+	const sections: [string, ThemeChange[]][] = [
+		['Appeared', comparison.appeared],
+		['Disappeared', comparison.disappeared],
+		['Grew', comparison.grew],
+		['Shrank', comparison.shrank]
+	];
+	const lines = sections
+		.filter(([, changes]) => changes.length > 0)
+		.map(([label, changes]) => `- **${label}:** ${changes.map(change => `${change.name} (${change.before} → ${change.after})`).join(', ')}`);
+	return lines.length > 0 ? lines.join('\n') : '_No theme changes._';
+}
 
-			return stdout.trim();
+function parseComparisonAnalysis(output: string): ComparisonAnalysis | null {
+	const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const text = fenced ? fenced[1] : output;
+	const start = text.indexOf('{');
+	const end = text.lastIndexOf('}');
+	if (start === -1 || end <= start) {
+		return null;
+	}
 
-		} catch (error) {
-			console.error('Error expanding journal entry:', error);
-			throw new Error(`Failed to expand journal entry: ${error.message}`);
-		}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text.substring(start, end + 1));
+	} catch (error) {
+		return null;
 	}
 
-	async quickJournalWithAnalysis(entry: string) {
-		const progressModal = new ProgressModal(this.app);
-		progressModal.open();
+	if (!parsed || typeof parsed !== 'object') {
+		return null;
+	}
+	const raw = parsed as Record<string, unknown>;
+	if (!asString(raw.summary) && !Array.isArray(raw.patternShifts)) {
+		return null;
+	}
 
-		try {
-			// Expand entry with Claude Code
-			progressModal.updateProgress('Expanding journal entry with AI...\n(This may take 30-60 seconds)');
-			const expandedEntry = await this.expandJournalEntry(entry);
+	return {
+		summary: asString(raw.summary),
+		patternShifts: asStringArray(raw.patternShifts),
+		questions: asStringArray(raw.questions)
+	};
+}
 
-			// Save expanded entry
-			progressModal.updateProgress('Saving journal entry...');
-			const journalFile = await this.saveJournalEntry(expandedEntry);
+const ASK_VIEW_TYPE = 'journal-analyzer-ask';
 
-			// Analyze connections
-			progressModal.updateProgress('Analyzing connections...\n(This may take another 30-60 seconds)');
-			const allFiles = this.app.vault.getMarkdownFiles();
-			const connections = await this.analyzeConnections(journalFile, allFiles, progressModal);
+// Entries retrieved for each question, and how much of each is sent
+const ASK_ENTRY_COUNT = 8;
+const ASK_PASSAGE_LENGTH = 800;
 
-			progressModal.close();
+// Earlier turns included in each prompt
+const ASK_HISTORY_TURNS = 6;
 
-			// Show results
-			new Notice('Journal entry saved!');
+const TIMELINE_VIEW_TYPE = 'journal-analyzer-timeline';
 
-			if (connections.length > 0) {
-				new ConnectionSuggestionModal(this.app, this, connections, journalFile).open();
-			} else {
-				// Open the journal file
-				await this.app.workspace.getLeaf().openFile(journalFile);
-			}
+// Line colors for the timeline, by dimension order
+const TIMELINE_COLORS = ['var(--color-blue)', 'var(--color-red)', 'var(--color-green)', 'var(--color-orange)', 'var(--color-purple)', 'var(--color-cyan)', 'var(--color-pink)', 'var(--color-yellow)'];
 
-		} catch (error) {
-			progressModal.close();
-			console.error('Error saving journal entry:', error);
-			new Notice(`Error: ${error.message}`);
-		}
-	}
+function parseDimensions(value: string): string[] {
+	return Array.from(new Set(value.split(',').map(dimension => dimension.trim()).filter(dimension => dimension.length > 0)));
 }
 
-class ProgressModal extends Modal {
-	private messageEl: HTMLElement;
-	private cancelCallback: (() => void) | null = null;
-
-	onOpen() {
-		const {contentEl} = this;
-		contentEl.empty();
+// A hand-recorded score as a number, accepting numeric strings like "7"
+function asScore(value: unknown): number | null {
+	const score = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+	return isFinite(score) ? score : null;
+}
 
-		contentEl.createEl('h2', {text: 'Analyzing Journal'});
+/**
+ * Inferred scores by entry number. Scores outside 1-10, unknown dimensions
+ * and unknown entry numbers are dropped.
+ */
+function parseEntryScores(items: unknown[], dimensions: string[], entryCount: number): Map<number, Record<string, number>> {
+	const results = new Map<number, Record<string, number>>();
 
-		this.messageEl = contentEl.createEl('p', {
-			text: 'Initializing...',
-			cls: 'journal-analyzer-progress'
-		});
+	for (const item of items) {
+		if (!item || typeof item !== 'object') {
+			continue;
+		}
+		const { entry, scores } = item as { entry?: unknown; scores?: unknown };
+		const index = typeof entry === 'number' ? entry : parseInt(String(entry));
+		if (!(index >= 1 && index <= entryCount) || !scores || typeof scores !== 'object') {
+			continue;
+		}
 
-		// Add cancel button
-		const buttonContainer = contentEl.createDiv({cls: 'modal-button-container'});
-		const cancelButton = buttonContainer.createEl('button', {text: 'Cancel'});
-		cancelButton.addEventListener('click', () => {
-			if (this.cancelCallback) {
-				this.cancelCallback();
+		const valid: Record<string, number> = {};
+		for (const dimension of dimensions) {
+			const score = asScore((scores as Record<string, unknown>)[dimension]);
+			if (score !== null && score >= 1 && score <= 10) {
+				valid[dimension] = Math.round(score);
 			}
-			this.close();
-		});
+		}
+		if (Object.keys(valid).length > 0) {
+			results.set(index, valid);
+		}
 	}
 
-	updateProgress(message: string) {
-		if (this.messageEl) {
-			this.messageEl.setText(message);
+	return results;
+}
+
+/**
+ * A rollup's synthesis doesn't list individual entries, so carry the people,
+ * projects and mood scores up from the child analyses' frontmatter.
+ */
+function mergeChildFrontmatter(children: Record<string, unknown>[]): Record<string, unknown> {
+	const people = new Set<string>();
+	const projects = new Set<string>();
+	const mood: Record<string, number> = {};
+
+	for (const child of children) {
+		asStringArray(child.people).forEach(person => people.add(person));
+		asStringArray(child.projects).forEach(project => projects.add(project));
+		if (child.mood && typeof child.mood === 'object') {
+			for (const [date, value] of Object.entries(child.mood as Record<string, unknown>)) {
+				if (typeof value === 'number') {
+					mood[date] = value;
+				}
+			}
 		}
 	}
 
-	setCancelCallback(callback: () => void) {
-		this.cancelCallback = callback;
-	}
+	const merged: Record<string, unknown> = {
+		people: Array.from(people).sort(),
+		projects: Array.from(projects).sort()
+	};
 
-	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
+	const scores = Object.values(mood);
+	if (scores.length > 0) {
+		merged.mood = mood;
+		merged.mood_average = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length * 10) / 10;
 	}
-}
 
-class DateRangeModal extends Modal {
-	onSubmit: (startDate: string, endDate: string) => void;
-	startDate: string;
-	endDate: string;
+	return merged;
+}
 
-	constructor(app: App, onSubmit: (startDate: string, endDate: string) => void) {
-		super(app);
-		this.onSubmit = onSubmit;
+// Format the core Daily Notes plugin uses when none is configured
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
 
-		// Default to last 30 days
-		const end = new Date();
-		const start = new Date();
-		start.setDate(start.getDate() - 30);
+function normalizeFolder(folder: string): string {
+	const normalized = normalizePath(folder.trim());
+	return normalized === '/' ? '' : normalized;
+}
 
-		this.startDate = this.formatDate(start);
-		this.endDate = this.formatDate(end);
+// Validate a user-entered date and return it as YYYY-MM-DD
+function parseDateInput(value: string, label: string): string {
+	const date = moment(value.trim(), ['YYYY-MM-DD', 'YYYY-M-D'], true);
+	if (!date.isValid()) {
+		throw new Error(`Invalid ${label} date "${value}". Use YYYY-MM-DD.`);
 	}
+	return date.format('YYYY-MM-DD');
+}
 
-	formatDate(date: Date): string {
-		const year = date.getFullYear();
-		const month = String(date.getMonth() + 1).padStart(2, '0');
-		const day = String(date.getDate()).padStart(2, '0');
-		return `${year}-${month}-${day}`;
-	}
+// Rough characters-per-token ratio used to estimate prompt size without a tokenizer
+const CHARS_PER_TOKEN = 4;
 
-	onOpen() {
-		const {contentEl} = this;
+// Tokens reserved for prompt instructions around the journal content
+const PROMPT_OVERHEAD_TOKENS = 1000;
 
-		contentEl.createEl('h2', {text: 'Select Date Range'});
+const MIN_BATCH_TOKENS = 1000;
 
-		new Setting(contentEl)
-			.setName('Start Date')
-			.setDesc('First date to include (YYYY-MM-DD)')
-			.addText(text => text
-				.setValue(this.startDate)
-				.onChange(value => {
-					this.startDate = value;
-				}));
+/**
+ * Built-in prompts, used when no template note exists and written out by
+ * "Reset Prompt Templates". Variables in {{double braces}} are filled in
+ * by renderPromptTemplate.
+ */
+const DEFAULT_PROMPT_TEMPLATES: Record<PromptKind, string> = {
+	analysis: `Analyze the following journal entries from {{startDate}} to {{endDate}}.
 
-		new Setting(contentEl)
-			.setName('End Date')
-			.setDesc('Last date to include (YYYY-MM-DD)')
-			.addText(text => text
-				.setValue(this.endDate)
-				.onChange(value => {
-					this.endDate = value;
-				}));
+Please provide:
 
-		new Setting(contentEl)
-			.addButton(btn => btn
-				.setButtonText('Analyze')
-				.setCta()
-				.onClick(() => {
-					this.close();
-					this.onSubmit(this.startDate, this.endDate);
-				}));
-	}
+1. **Recurring Themes** - Identify major themes that appear multiple times
+2. **Pattern Recognition** - Note behavioral patterns, decision-making patterns, emotional patterns
+3. **Key Insights** - What stands out as significant across entries
+4. **Suggested Connections** - Identify entries or concepts that should be linked together
+5. **Questions to Consider** - Based on the patterns, what questions might be worth exploring
 
-	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
-	}
-}
+Also score each entry's mood and list the people and projects it mentions.
 
-class ConnectionSuggestionModal extends Modal {
-	plugin: JournalAnalyzerPlugin;
-	connections: Connection[];
-	currentFile: TFile;
+{{jsonFormat}}
 
-	constructor(app: App, plugin: JournalAnalyzerPlugin, connections: Connection[], currentFile: TFile) {
-		super(app);
-		this.plugin = plugin;
-		this.connections = connections;
-		this.currentFile = currentFile;
-	}
+Journal Entries:
+{{entries}}
 
-	onOpen() {
-		const {contentEl} = this;
-		contentEl.empty();
+Return JSON only:`,
 
-		contentEl.createEl('h2', {text: 'Suggested Connections'});
-		contentEl.createEl('p', {
-			text: `Found ${this.connections.length} potential connections for ${this.currentFile.basename}`,
-			cls: 'connection-summary'
-		});
+	ask: `You are helping someone understand their own journal. Today is {{today}}.
 
-		// Sort by confidence descending
-		const sortedConnections = this.connections.sort((a, b) => b.confidence - a.confidence);
+Answer their question using only the journal entries below. Cite the entries each part of the answer is based on as [[YYYY-MM-DD]] links using the entry dates. If the entries don't answer the question, say so instead of guessing.
 
-		for (const connection of sortedConnections) {
-			const connectionDiv = contentEl.createDiv({cls: 'connection-item'});
+Conversation so far:
+{{history}}
 
-			// Header with confidence and type
-			const headerDiv = connectionDiv.createDiv({cls: 'connection-header'});
-			headerDiv.createEl('span', {
-				text: `${connection.confidence}% confidence`,
-				cls: 'connection-confidence'
-			});
-			headerDiv.createEl('span', {
-				text: connection.connectionType,
-				cls: 'connection-type'
-			});
+Relevant journal entries:
+{{entries}}
 
-			// Target file
-			connectionDiv.createEl('div', {
-				text: `→ ${connection.targetFile}`,
-				cls: 'connection-target'
-			});
+Question: {{question}}
 
-			// Source text
-			connectionDiv.createEl('div', {
-				text: `"${connection.sourceText}"`,
-				cls: 'connection-source-text'
-			});
+Answer:`,
 
-			// Reason
-			connectionDiv.createEl('div', {
-				text: connection.reason,
-				cls: 'connection-reason'
-			});
+	connections: `Analyze the current note and suggest wiki-link connections to other notes in the vault.
 
-			// Action buttons
-			const buttonContainer = connectionDiv.createDiv({cls: 'connection-buttons'});
+Current Note: {{currentNote}}
 
-			// Add link button
-			const addButton = buttonContainer.createEl('button', {text: 'Add Link'});
-			addButton.addEventListener('click', async () => {
-				try {
-					const success = await this.plugin.insertWikiLink(
-						this.currentFile,
-						connection.sourceText,
-						connection.targetFile
-					);
+Your task:
+1. Find concepts, themes, people, or ideas in the current note that relate to other notes
+2. Only suggest connections that meet the minimum confidence threshold: {{minConfidence}}%
+3. Focus on connection types: {{connectionTypes}}
+4. Do not suggest connections that were already rejected:
+{{rejected}}
 
-					if (success) {
-						new Notice(`Added link to ${connection.targetFile}`);
-						addButton.disabled = true;
-						addButton.setText('Added ✓');
-					} else {
-						new Notice('Could not find exact text to link. Text may have changed.');
-					}
-				} catch (error) {
-					new Notice(`Error adding link: ${error.message}`);
-				}
-			});
+For each suggested connection, provide:
+- sourceText: The exact text in current note that should be linked (5-30 words)
+- targetFile: The path to the note it should link to
+- targetText: The relevant text in the target note (5-30 words)
+- reason: Why this connection is meaningful (1 sentence)
+- confidence: Your confidence level (0-100)
+- connectionType: One of: thematic, temporal, entity, causal
+
+Return ONLY valid JSON array of connection objects. Example:
+[
+  {
+    "sourceFile": "{{currentPath}}",
+    "targetFile": "journal/2025-10-17.md",
+    "sourceText": "making art less intimidating",
+    "targetText": "Artsy's mission to make art accessible",
+    "reason": "Same core mission concept in different contexts",
+    "confidence": 95,
+    "connectionType": "thematic"
+  }
+]
+
+Context:
+{{context}}
+
+Return JSON array only:`,
+
+	comparison: `Compare two periods of journal analysis: {{firstRange}} (first) and {{secondRange}} (second).
+
+Theme counts changed like this:
+{{themeChanges}}
+
+Please provide:
+1. **Summary** - How the second period differed from the first, in a short paragraph
+2. **Pattern Shifts** - Behavioral, emotional or decision-making patterns that started, stopped or changed
+3. **Questions to Consider** - What the changes suggest is worth reflecting on
+
+Return ONLY a JSON object with this shape:
+{
+  "summary": "string",
+  "patternShifts": ["string"],
+  "questions": ["string"]
+}
+
+First period ({{firstRange}}):
+{{firstAnalysis}}
+
+---
+
+Second period ({{secondRange}}):
+{{secondAnalysis}}
+
+Return JSON only:`,
+
+	expansion: `I have a brief journal entry that needs to be expanded into a detailed, thoughtful journal entry.
+
+Please expand the following brief notes into a well-structured journal entry with:
+- Clear headers and subheaders
+- Detailed analysis and context
+- Multiple perspectives on the situation
+- Self-reflection and honest assessment
+- Questions to consider
+- Next steps (immediate and strategic)
+- Related connections or themes
+
+Format the response as markdown with proper structure. Include wiki-link suggestions in [[double brackets]] where appropriate for related concepts, people, or past entries.
+
+Brief entry:
+{{entry}}
+
+Expanded journal entry:`,
+
+	cleanup: `Lightly clean up the journal entry below. Fix spelling, grammar and punctuation, and split it into paragraphs where that helps.
+
+Keep the writer's words, voice and meaning. Don't add new content, headings or commentary.
+
+Entry ({{date}}):
+{{entry}}
+
+Return only the cleaned-up entry:`,
+
+	reflection: `Read the journal entry below and write 3-5 short reflective prompts that would help the writer think further about it. Base them on what the entry actually says.
+
+Format them as a markdown list. Don't repeat or rewrite the entry.
+
+Entry ({{date}}):
+{{entry}}
+
+Reflective prompts:`,
+
+	scoring: `Score each journal entry below from 1 (lowest) to 10 (highest) on these dimensions: {{dimensions}}.
+
+Only score a dimension when the entry gives some evidence for it, and leave it out otherwise. For stress, 10 means very stressed; for sleep, 10 means slept very well.
+
+Return ONLY a JSON array with one object per entry, using the entry numbers below. Example:
+[
+  { "entry": 1, "scores": { "mood": 7, "energy": 5 } }
+]
+
+Entries:
+{{entries}}
+
+Return JSON array only:`,
+
+	entities: `Extract the people, organizations, places and projects mentioned in the journal entries below.
+
+Known entities (use these canonical names when an entry refers to one of them, including by a nickname, initials or a [[wiki link]]):
+{{knownEntities}}
+
+For each mention, provide:
+- entry: The entry number
+- name: The canonical name (a known entity's name, or the most complete name the entries use)
+- type: One of: person, organization, place, project
+- aliases: Other names the entry uses for it, e.g. "Sam" or "Sam K."
+- context: A short quote from the entry around the mention (5-25 words)
+
+List each entity at most once per entry. Skip unnamed references like "my boss".
+
+Return ONLY valid JSON array. Example:
+[
+  { "entry": 1, "name": "Sam Kim", "type": "person", "aliases": ["Sam"], "context": "Had coffee with Sam to talk about the launch" }
+]
+
+Entries:
+{{entries}}
+
+Return JSON array only:`
+};
+
+const PROMPT_KINDS = Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptKind[];
+
+const EXPANSION_MODES: Record<ExpansionMode, { label: string; prompt: PromptKind | null }> = {
+	none: { label: 'None (save as written)', prompt: null },
+	cleanup: { label: 'Light cleanup', prompt: 'cleanup' },
+	reflect: { label: 'Append reflective prompts', prompt: 'reflection' },
+	expand: { label: 'Full expansion', prompt: 'expansion' }
+};
+
+/**
+ * The text Quick Journal saves. The original entry is always kept: as written
+ * when prompts are appended, otherwise in a collapsed callout above the
+ * rewritten version.
+ */
+function composeQuickJournalEntry(original: string, mode: ExpansionMode, expansion: string | null): string {
+	if (mode === 'none' || !expansion || !expansion.trim()) {
+		return original;
+	}
+	if (mode === 'reflect') {
+		return `${original}\n\n### Reflection Prompts\n\n${expansion.trim()}`;
+	}
+	const quoted = original.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+	return `> [!quote]- Original entry\n${quoted}\n\n${expansion.trim()}`;
+}
+
+// Replace {{name}} placeholders; unknown placeholders are left as written
+function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+	return template.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) =>
+		Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match);
+}
+
+function stripFrontmatter(content: string): string {
+	return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+}
+
+/**
+ * Parse the JSON array in a model response, allowing for code fences and text
+ * around it. Throws with the parse error when there is no valid array.
+ */
+function extractJsonArray(output: string): unknown[] {
+	const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const text = fenced ? fenced[1] : output;
+	const start = text.indexOf('[');
+	const end = text.lastIndexOf(']');
+	if (start === -1 || end <= start) {
+		throw new Error('no JSON array found');
+	}
+
+	const parsed = JSON.parse(text.substring(start, end + 1));
+	if (!Array.isArray(parsed)) {
+		throw new Error('JSON is not an array');
+	}
+	return parsed;
+}
+
+function buildJsonRepairPrompt(previousOutput: string, error: string): string {
+	return `Your previous response could not be parsed as a JSON array of connection objects (${error}).
+
+Return ONLY the corrected JSON array, with no commentary or code fences. Each object must have the fields sourceFile, targetFile, sourceText, targetText, reason, confidence (a number from 0 to 100) and connectionType (one of: ${CONNECTION_TYPES.join(', ')}).
+
+Previous response:
+${previousOutput}`;
+}
+
+// e.g. "3 suggestions discarded: 2 target note not found, 1 invalid confidence"
+function summarizeDiscarded(discarded: Record<string, number>): string {
+	const reasons = Object.keys(discarded);
+	if (reasons.length === 0) {
+		return '';
+	}
+	const total = reasons.reduce((sum, reason) => sum + discarded[reason], 0);
+	return `${total} ${total === 1 ? 'suggestion' : 'suggestions'} discarded: ${reasons.map(reason => `${discarded[reason]} ${reason}`).join(', ')}`;
+}
+
+const RELATED_HEADING = '## Related';
+
+/**
+ * Add or replace the line for link in the note's "## Related" section, creating
+ * the section at the end of the note if it doesn't exist. Nothing outside the
+ * section is changed.
+ */
+function upsertRelatedSectionLine(content: string, link: string, line: string): string {
+	const lines = content.split('\n');
+	const section = findSection(lines, RELATED_HEADING);
+	if (!section) {
+		return appendSection(content, RELATED_HEADING, line);
+	}
+
+	const { headingIndex, endIndex } = section;
+	const existingIndex = lines.findIndex((text, i) => i > headingIndex && i < endIndex && text.startsWith(`- ${link}`));
+	if (existingIndex !== -1) {
+		lines[existingIndex] = line;
+		return lines.join('\n');
+	}
+
+	// Insert after the last list item in the section, or right below the heading
+	let insertAt = headingIndex + 1;
+	for (let i = headingIndex + 1; i < endIndex; i++) {
+		if (lines[i].startsWith('- ')) {
+			insertAt = i + 1;
+		}
+	}
+	if (insertAt === headingIndex + 1) {
+		lines.splice(insertAt, 0, '', line);
+	} else {
+		lines.splice(insertAt, 0, line);
+	}
+	return lines.join('\n');
+}
+
+// Hidden marker identifying a suggestion on a review note line
+const REVIEW_ITEM_MARKER = 'ja-link:';
+
+function parseReviewItems(content: string): { id: string; checked: boolean }[] {
+	const items: { id: string; checked: boolean }[] = [];
+	const pattern = new RegExp(`^\\s*- \\[([ xX])\\].*%%${REVIEW_ITEM_MARKER}(\\w+)%%\\s*$`, 'gm');
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(content)) !== null) {
+		items.push({ id: match[2], checked: match[1] !== ' ' });
+	}
+	return items;
+}
+
+// Lowercase and strip markdown, punctuation and extra whitespace so rewordings of the same text match
+function normalizeLedgerText(text: string): string {
+	return text
+		.toLowerCase()
+		.replace(/[*_`[\]()"'“”‘’.,;:!?]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+function ledgerKey(sourcePath: string, targetPath: string, sourceText: string): string {
+	return `${sourcePath}|${targetPath}|${normalizeLedgerText(sourceText)}`;
+}
+
+const ANALYSIS_JSON_INSTRUCTIONS = `Return ONLY a JSON object with this shape:
+{
+  "summary": "2-3 sentence overview of the period",
+  "themes": [{ "name": "short theme name", "count": 3, "description": "how the theme shows up" }],
+  "patterns": [{ "type": "behavioral | decision-making | emotional", "description": "the pattern" }],
+  "insights": ["significant observation"],
+  "connections": [{ "from": "entry date or concept", "to": "entry date or concept", "reason": "why they belong together" }],
+  "questions": ["question worth exploring"],
+  "entries": [{ "date": "YYYY-MM-DD", "mood": 6, "people": ["Name"], "projects": ["Project"] }]
+}
+"count" is the number of entries a theme appears in. "mood" is 1 (very low) to 10 (very high), or null if it can't be judged.
+End the summary and every theme description, pattern, insight and connection reason with citations of the entries it is based on, as [[YYYY-MM-DD]] links using the entry dates, e.g. "Deferred the decision twice [[2025-10-03]] [[2025-10-09]]".`;
+
+// Open questions shown to an analysis, most recent last
+const MAX_FOLLOW_UP_QUESTIONS = 40;
+
+// Added to the JSON instructions when there are open questions from earlier analyses
+function buildFollowUpInstructions(questions: TrackedQuestion[]): string {
+	return `
+
+Also include "followUps": one object for each open question below that these entries address, as { "id": "Q3", "status": "resolved" | "open", "entries": ["YYYY-MM-DD"], "note": "how the entries address it" }. Use "resolved" only when the entries answer or settle the question, and list the dates of the entries that address it. Only entries dated after a question was raised count. Leave out questions the entries don't touch.
+
+Open questions from earlier analyses:
+${questions.map(question => `- ${question.id} (raised ${question.raisedOn}): ${question.text}`).join('\n')}`;
+}
+
+/**
+ * List items under a "Next steps" heading, including its subheadings, with
+ * list and task markers and bold removed.
+ */
+function extractNextSteps(markdown: string): string[] {
+	const steps: string[] = [];
+	let sectionLevel = 0;
+
+	for (const line of markdown.split('\n')) {
+		const heading = line.match(/^(#{1,6})\s+(.*)$/);
+		if (heading) {
+			if (sectionLevel > 0 && heading[1].length <= sectionLevel) {
+				sectionLevel = 0;
+			}
+			if (sectionLevel === 0 && /next steps?/i.test(heading[2])) {
+				sectionLevel = heading[1].length;
+			}
+			continue;
+		}
+
+		const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/);
+		if (sectionLevel > 0 && item) {
+			const text = item[1].replace(/\*\*/g, '').trim();
+			if (text) {
+				steps.push(text);
+			}
+		}
+	}
+
+	return steps;
+}
+
+// Sections of a rendered analysis whose claims should cite entries
+const CITED_SECTIONS = ['## Summary', '## Recurring Themes', '## Pattern Recognition', '## Key Insights', '## Suggested Connections'];
+
+/**
+ * Check every [[link]] in an analysis with resolve, which returns the link text
+ * of a cited entry or why the citation is invalid. Valid citations are rewritten
+ * to resolvable links (keeping any #heading or #^block), invalid ones are
+ * struck through, and claims in the cited sections without a valid citation
+ * are collected.
+ */
+function checkCitations(body: string, resolve: (target: string) => { link: string } | { error: string }): CitationCheck {
+	const check: CitationCheck = { body: '', valid: 0, invalid: [], uncited: [] };
+	let inCitedSection = false;
+
+	check.body = body.split('\n').map(line => {
+		if (/^#{1,6}\s/.test(line)) {
+			inCitedSection = CITED_SECTIONS.includes(line.trim());
+			return line;
+		}
+
+		let citations = 0;
+		const checked = line.replace(/\[\[([^\]|#]+)(#[^\]|]*)?(?:\|[^\]]*)?\]\]/g, (match, target: string, subpath = '') => {
+			const result = resolve(target.trim());
+			if ('error' in result) {
+				check.invalid.push({ target: target.trim(), reason: result.error });
+				return `~~${target.trim()}~~`;
+			}
+			citations++;
+			check.valid++;
+			return result.link === target.trim() ? `[[${result.link}${subpath}]]` : `[[${result.link}${subpath}|${target.trim()}]]`;
+		});
+
+		const claim = line.replace(/^\s*[-*]\s+/, '').replace(/\*\*/g, '').trim();
+		if (inCitedSection && citations === 0 && claim && !/^_.*_$/.test(claim)) {
+			check.uncited.push(claim.length > 120 ? `${claim.substring(0, 117)}...` : claim);
+		}
+		return checked;
+	}).join('\n');
+
+	return check;
+}
+
+function renderCitationCheck(check: CitationCheck): string {
+	const lines: string[] = [];
+	if (check.invalid.length === 0 && check.uncited.length === 0) {
+		lines.push(`All ${check.valid} citations point to analyzed entries, and every claim cites at least one.`);
+	} else {
+		lines.push(`${check.valid} citations point to analyzed entries.`);
+	}
+	if (check.invalid.length > 0) {
+		lines.push('', 'Struck-through citations that could not be verified:', ...check.invalid.map(citation => `- ${citation.target}: ${citation.reason}`));
+	}
+	if (check.uncited.length > 0) {
+		lines.push('', 'Claims without a citation:', ...check.uncited.map(claim => `- ${claim}`));
+	}
+	return `## Citation Check\n\n${lines.join('\n')}`;
+}
+
+function asString(value: unknown): string {
+	return typeof value === 'string' ? value.trim() : '';
+}
+
+// The object elements of an array, for narrowing parsed JSON
+function asRecordArray(value: unknown): Record<string, unknown>[] {
+	return Array.isArray(value) ? value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object') : [];
+}
+
+function asStringArray(value: unknown): string[] {
+	return Array.isArray(value) ? value.map(asString).filter(item => item.length > 0) : [];
+}
+
+/**
+ * Extract and validate a StructuredAnalysis from model output. Returns null
+ * when there's no parseable JSON object or none of the expected sections are
+ * present, so callers can fall back to the raw output.
+ */
+function parseStructuredAnalysis(output: string): StructuredAnalysis | null {
+	const fenced = output.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const text = fenced ? fenced[1] : output;
+	const start = text.indexOf('{');
+	const end = text.lastIndexOf('}');
+	if (start === -1 || end <= start) {
+		return null;
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text.substring(start, end + 1));
+	} catch (error) {
+		return null;
+	}
+
+	if (!parsed || typeof parsed !== 'object') {
+		return null;
+	}
+	const raw = parsed as Record<string, unknown>;
+	if (!Array.isArray(raw.themes) || !Array.isArray(raw.insights) || !Array.isArray(raw.questions)) {
+		return null;
+	}
+
+	const themes = asRecordArray(raw.themes)
+		.filter(theme => asString(theme.name))
+		.map(theme => ({
+			name: asString(theme.name),
+			count: typeof theme.count === 'number' && theme.count >= 0 ? Math.round(theme.count) : 1,
+			description: asString(theme.description)
+		}));
+
+	const patterns = asRecordArray(raw.patterns)
+		.filter(pattern => asString(pattern.description))
+		.map(pattern => ({
+			type: asString(pattern.type) || 'general',
+			description: asString(pattern.description)
+		}));
+
+	const connections = asRecordArray(raw.connections)
+		.filter(connection => asString(connection.from) && asString(connection.to))
+		.map(connection => ({
+			from: asString(connection.from),
+			to: asString(connection.to),
+			reason: asString(connection.reason)
+		}));
+
+	const entries = asRecordArray(raw.entries)
+		.filter(entry => /^\d{4}-\d{2}-\d{2}$/.test(asString(entry.date)))
+		.map(entry => ({
+			date: asString(entry.date),
+			mood: typeof entry.mood === 'number' && entry.mood >= 1 && entry.mood <= 10 ? entry.mood : null,
+			people: asStringArray(entry.people),
+			projects: asStringArray(entry.projects)
+		}));
+
+	const followUps: FollowUp[] = asRecordArray(raw.followUps)
+		.filter(followUp => asString(followUp.id))
+		.map(followUp => ({
+			id: asString(followUp.id),
+			status: asString(followUp.status).toLowerCase() === 'resolved' ? 'resolved' : 'open',
+			entries: asStringArray(followUp.entries).filter(date => /^\d{4}-\d{2}-\d{2}$/.test(date)),
+			note: asString(followUp.note)
+		}));
+
+	const analysis: StructuredAnalysis = {
+		summary: asString(raw.summary),
+		themes,
+		patterns,
+		insights: asStringArray(raw.insights),
+		connections,
+		questions: asStringArray(raw.questions),
+		entries,
+		followUps
+	};
+
+	if (analysis.themes.length === 0 && analysis.insights.length === 0 && analysis.questions.length === 0) {
+		return null;
+	}
+
+	return analysis;
+}
+
+function renderStructuredAnalysis(analysis: StructuredAnalysis): string {
+	const sections: string[] = [];
+
+	if (analysis.summary) {
+		sections.push(`## Summary\n\n${analysis.summary}`);
+	}
+
+	sections.push('## Recurring Themes\n\n' + (analysis.themes.length > 0
+		? analysis.themes.map(theme => `- **${theme.name}** (${theme.count} ${theme.count === 1 ? 'entry' : 'entries'})${theme.description ? ` - ${theme.description}` : ''}`).join('\n')
+		: '_None identified._'));
+
+	sections.push('## Pattern Recognition\n\n' + (analysis.patterns.length > 0
+		? analysis.patterns.map(pattern => `- **${pattern.type}:** ${pattern.description}`).join('\n')
+		: '_None identified._'));
+
+	sections.push('## Key Insights\n\n' + (analysis.insights.length > 0
+		? analysis.insights.map(insight => `- ${insight}`).join('\n')
+		: '_None identified._'));
+
+	sections.push('## Suggested Connections\n\n' + (analysis.connections.length > 0
+		? analysis.connections.map(connection => `- **${connection.from}** ↔ **${connection.to}**${connection.reason ? ` - ${connection.reason}` : ''}`).join('\n')
+		: '_None identified._'));
+
+	sections.push('## Questions to Consider\n\n' + (analysis.questions.length > 0
+		? analysis.questions.map(question => `- ${question}`).join('\n')
+		: '_None identified._'));
+
+	if (analysis.entries.length > 0) {
+		const rows = analysis.entries.map(entry =>
+			`| ${entry.date} | ${entry.mood ?? '-'} | ${entry.people.join(', ') || '-'} | ${entry.projects.join(', ') || '-'} |`);
+		sections.push(`## Entries\n\n| Date | Mood | People | Projects |\n| --- | --- | --- | --- |\n${rows.join('\n')}`);
+	}
+
+	return sections.join('\n\n');
+}
+
+// Queryable frontmatter fields for a meta note (e.g. from Dataview)
+function buildAnalysisFrontmatter(analysis: StructuredAnalysis): Record<string, unknown> {
+	const unique = (values: string[]) => Array.from(new Set(values)).sort();
+	const moods = analysis.entries.filter(entry => entry.mood !== null);
+	const frontmatter: Record<string, unknown> = {
+		themes: analysis.themes.map(theme => theme.name),
+		theme_counts: Object.fromEntries(analysis.themes.map(theme => [theme.name, theme.count])),
+		people: unique(([] as string[]).concat(...analysis.entries.map(entry => entry.people))),
+		projects: unique(([] as string[]).concat(...analysis.entries.map(entry => entry.projects)))
+	};
+
+	if (moods.length > 0) {
+		frontmatter.mood = Object.fromEntries(moods.map(entry => [entry.date, entry.mood]));
+		const average = moods.reduce((sum, entry) => sum + (entry.mood as number), 0) / moods.length;
+		frontmatter.mood_average = Math.round(average * 10) / 10;
+	}
+
+	return frontmatter;
+}
+
+// Hex-encoded SHA-256 of a string
+async function hashContent(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+	return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Monday of the week containing a YYYY-MM-DD date, or '' if the date can't be parsed
+function getWeekStart(date: string): string {
+	const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	if (!match) {
+		return '';
+	}
+	const day = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+	day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+	return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+}
+
+class CancelledError extends Error {
+	constructor(message = 'Cancelled') {
+		super(message);
+		this.name = 'CancelledError';
+	}
+}
+
+function throwIfCancelled(signal?: AbortSignal) {
+	if (signal && signal.aborted) {
+		throw new CancelledError();
+	}
+}
+
+interface JobHandle {
+	run: (context: JobContext) => Promise<JobResult>;
+	controller: AbortController;
+	resolve: () => void;
+}
+
+/**
+ * Runs model jobs in the background in the order they were queued, at most
+ * the configured number at a time.
+ */
+class JobQueue {
+	jobs: Job[] = [];
+	private nextId = 1;
+	private handles = new Map<number, JobHandle>();
+
+	constructor(
+		private getConcurrency: () => number,
+		private onChange: (job: Job) => void,
+		private onFinish: (job: Job) => void
+	) {}
+
+	// Queue a job unless one with the same key is already queued or running
+	enqueue(key: string, title: string, run: (context: JobContext) => Promise<JobResult>, notify = true): Job | null {
+		if (this.active().some(job => job.key === key)) {
+			return null;
+		}
+
+		let resolve: () => void = () => {};
+		const finished = new Promise<void>(done => resolve = done);
+		const job: Job = {
+			id: this.nextId++,
+			key,
+			title,
+			status: 'queued',
+			progress: 'Waiting...',
+			result: null,
+			error: null,
+			queuedAt: Date.now(),
+			startedAt: null,
+			finishedAt: null,
+			finished,
+			notify
+		};
+		this.jobs.push(job);
+		this.handles.set(job.id, { run, controller: new AbortController(), resolve });
+		this.onChange(job);
+		this.startNext();
+		return job;
+	}
+
+	active(): Job[] {
+		return this.jobs.filter(job => job.status === 'queued' || job.status === 'running');
+	}
+
+	cancel(id: number) {
+		const job = this.jobs.find(job => job.id === id);
+		const handle = this.handles.get(id);
+		if (!job || !handle) {
+			return;
+		}
+		if (job.status === 'queued') {
+			this.finish(job, 'cancelled', null, 'Cancelled');
+		} else {
+			handle.controller.abort();
+		}
+	}
+
+	cancelAll() {
+		for (const job of this.active()) {
+			this.cancel(job.id);
+		}
+	}
+
+	clearFinished() {
+		this.jobs = this.active();
+	}
+
+	// Start queued jobs while there is room
+	startNext() {
+		const limit = Math.max(1, this.getConcurrency());
+		let running = this.jobs.filter(job => job.status === 'running').length;
+		for (const job of this.jobs) {
+			if (running >= limit) {
+				break;
+			}
+			if (job.status === 'queued') {
+				running++;
+				this.run(job);
+			}
+		}
+	}
+
+	private async run(job: Job) {
+		const handle = this.handles.get(job.id) as JobHandle;
+		job.status = 'running';
+		job.startedAt = Date.now();
+		job.progress = 'Starting...';
+		this.onChange(job);
+
+		try {
+			const result = await handle.run({
+				signal: handle.controller.signal,
+				progress: message => {
+					if (job.status === 'running') {
+						job.progress = message;
+						this.onChange(job);
+					}
+				}
+			});
+			this.finish(job, 'done', result, null);
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				this.finish(job, 'cancelled', null, error.message);
+			} else {
+				console.error(`Error in job "${job.title}":`, error);
+				this.finish(job, 'failed', null, error.message);
+			}
+		}
+	}
+
+	private finish(job: Job, status: JobStatus, result: JobResult | null, error: string | null) {
+		const handle = this.handles.get(job.id);
+		this.handles.delete(job.id);
+		job.status = status;
+		job.result = result;
+		job.error = error;
+		job.finishedAt = Date.now();
+
+		const finished = this.jobs.filter(other => other.finishedAt !== null);
+		if (finished.length > MAX_FINISHED_JOBS) {
+			const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS));
+			this.jobs = this.jobs.filter(other => !dropped.has(other));
+		}
+
+		this.onChange(job);
+		this.onFinish(job);
+		if (handle) {
+			handle.resolve();
+		}
+		this.startNext();
+	}
+}
+
+// Collects what one run sent to the model, for its run history record
+class RunLog {
+	readonly startedAt = Date.now();
+	private files = new Map<string, string>();
+	private calls: RunCall[] = [];
+
+	constructor(private title: string, private inputs: RunInputs, readonly storeContent: boolean) {}
+
+	async addFile(path: string, content: string) {
+		this.files.set(path, await hashContent(content));
+	}
+
+	recordCall(call: RunCall) {
+		this.calls.push(call);
+	}
+
+	toRecord(status: RunStatus, backend: string, error: string | null, outputFile?: string): RunRecord {
+		const record: RunRecord = {
+			id: `${this.startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			title: this.title,
+			command: this.inputs.command,
+			inputs: this.inputs,
+			backend,
+			startedAt: this.startedAt,
+			durationMs: Date.now() - this.startedAt,
+			status,
+			files: Array.from(this.files, ([path, hash]) => ({ path, hash })),
+			templates: Array.from(new Set(this.calls.map(call => call.template))),
+			calls: this.calls,
+			outputChars: this.calls.reduce((sum, call) => sum + call.outputChars, 0)
+		};
+		if (error) {
+			record.error = error;
+		}
+		if (outputFile) {
+			record.outputFile = outputFile;
+		}
+		return record;
+	}
+}
+
+/**
+ * Append-only JSON Lines log of model runs in the plugin folder. Records past
+ * the retention period are dropped when the plugin loads.
+ */
+class RunHistory {
+	// Writes run one at a time, so concurrent runs can't both create the file
+	private writes: Promise<void> = Promise.resolve();
+
+	constructor(private app: App, private path: string) {}
+
+	append(record: RunRecord): Promise<void> {
+		const line = `${JSON.stringify(record)}\n`;
+		return this.queueWrite(async () => {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				await this.app.vault.adapter.append(this.path, line);
+			} else {
+				await this.app.vault.adapter.write(this.path, line);
+			}
+		});
+	}
+
+	// Newest first; lines that don't parse are skipped
+	async read(): Promise<RunRecord[]> {
+		if (!await this.app.vault.adapter.exists(this.path)) {
+			return [];
+		}
+
+		const records: RunRecord[] = [];
+		for (const line of (await this.app.vault.adapter.read(this.path)).split('\n')) {
+			const record = parseRunRecord(line);
+			if (record) {
+				records.push(record);
+			}
+		}
+		return records.reverse();
+	}
+
+	prune(retentionDays: number): Promise<void> {
+		return this.queueWrite(async () => {
+			if (retentionDays <= 0 || !await this.app.vault.adapter.exists(this.path)) {
+				return;
+			}
+
+			const cutoff = Date.now() - retentionDays * DAY_MS;
+			const lines = (await this.app.vault.adapter.read(this.path)).split('\n').filter(line => line.trim());
+			const kept = lines.filter(line => {
+				const record = parseRunRecord(line);
+				return record !== null && record.startedAt >= cutoff;
+			});
+			if (kept.length < lines.length) {
+				await this.app.vault.adapter.write(this.path, kept.map(line => `${line}\n`).join(''));
+			}
+		});
+	}
+
+	private queueWrite(write: () => Promise<void>): Promise<void> {
+		const result = this.writes.then(write);
+		// A failed write doesn't hold up the ones after it
+		this.writes = result.catch(() => undefined);
+		return result;
+	}
+}
+
+function parseRunRecord(line: string): RunRecord | null {
+	if (!line.trim()) {
+		return null;
+	}
+	try {
+		const record = JSON.parse(line);
+		return record && typeof record.id === 'string' && typeof record.startedAt === 'number' ? record as RunRecord : null;
+	} catch (error) {
+		return null;
+	}
+}
+
+function formatSeconds(ms: number): string {
+	return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function describeJobTimes(job: Job): string {
+	if (job.finishedAt !== null) {
+		return `${JOB_STATUS_LABELS[job.status]} at ${moment(job.finishedAt).format('HH:mm')}`;
+	}
+	if (job.startedAt !== null) {
+		return `Running since ${moment(job.startedAt).format('HH:mm')}`;
+	}
+	return `Queued at ${moment(job.queuedAt).format('HH:mm')}`;
+}
+
+// Split a command-line style argument string, honoring single and double quotes
+function parseCommandArgs(value: string): string[] {
+	const args: string[] = [];
+	const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(value)) !== null) {
+		args.push(match[1] ?? match[2] ?? match[3]);
+	}
+	return args;
+}
+
+/**
+ * Runs a CLI model command without a shell, writing the prompt to stdin and
+ * collecting stdout. The child is killed on timeout or when the signal aborts.
+ */
+class ProcessBackend implements ModelBackend {
+	constructor(private command: string, private args: string[], private timeoutMs: number) {}
+
+	run(prompt: string, options: ModelRunOptions = {}): Promise<string> {
+		const { onOutput, signal } = options;
+
+		return new Promise((resolve, reject) => {
+			if (signal && signal.aborted) {
+				reject(new CancelledError());
+				return;
+			}
+
+			if (!Platform.isDesktopApp) {
+				reject(new Error('The Claude Code CLI backend is only available on desktop. Switch to the HTTP backend in settings.'));
+				return;
+			}
+
+			// Loaded lazily so the plugin can still load on mobile
+			const { spawn } = require('child_process');
+			const child: ChildProcessWithoutNullStreams = spawn(this.command, this.args, { shell: false, windowsHide: true });
+			let stdout = '';
+			let stderr = '';
+			let settled = false;
+			let timer: ReturnType<typeof setTimeout> | null = null;
+
+			const onAbort = () => {
+				child.kill();
+				finish(new CancelledError());
+			};
+
+			const finish = (error: Error | null) => {
+				if (settled) {
+					return;
+				}
+				settled = true;
+				if (timer) {
+					clearTimeout(timer);
+				}
+				if (signal) {
+					signal.removeEventListener('abort', onAbort);
+				}
+				if (error) {
+					reject(error);
+				} else {
+					resolve(stdout);
+				}
+			};
+
+			if (this.timeoutMs > 0) {
+				timer = setTimeout(() => {
+					child.kill();
+					finish(new Error(`${this.command} timed out after ${Math.round(this.timeoutMs / 1000)} seconds`));
+				}, this.timeoutMs);
+			}
+
+			if (signal) {
+				signal.addEventListener('abort', onAbort);
+			}
+
+			child.stdout.setEncoding('utf8');
+			child.stdout.on('data', (chunk: string) => {
+				stdout += chunk;
+				if (onOutput) {
+					onOutput(stdout);
+				}
+			});
+
+			child.stderr.setEncoding('utf8');
+			child.stderr.on('data', (chunk: string) => {
+				stderr += chunk;
+			});
+
+			child.on('error', (error: Error) => {
+				finish(new Error(`Could not start ${this.command}: ${error.message}`));
+			});
+
+			child.on('close', (code: number | null, killSignal: string | null) => {
+				if (code !== 0) {
+					const reason = code === null ? `was killed (${killSignal})` : `exited with code ${code}`;
+					const details = stderr.trim() ? `: ${stderr.trim()}` : '';
+					finish(new Error(`${this.command} ${reason}${details}`));
+					return;
+				}
+
+				if (stderr.trim()) {
+					console.warn('Claude Code stderr:', stderr);
+				}
+				finish(null);
+			});
+
+			// The process may exit before reading all input; the close handler reports that
+			child.stdin.on('error', () => {});
+			child.stdin.end(prompt);
+		});
+	}
+}
+
+// Parse "Name: value" lines into a header map, skipping blank or malformed lines
+function parseHeaderLines(value: string): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const line of value.split('\n')) {
+		const separator = line.indexOf(':');
+		if (separator <= 0) {
+			continue;
+		}
+		const name = line.substring(0, separator).trim();
+		const headerValue = line.substring(separator + 1).trim();
+		if (name) {
+			headers[name] = headerValue;
+		}
+	}
+	return headers;
+}
+
+/**
+ * Sends prompts to an OpenAI-compatible chat completions endpoint or an Ollama
+ * server. Uses requestUrl so it works on mobile and is not subject to CORS.
+ * requestUrl can't be aborted or streamed, so cancellation and timeouts stop
+ * waiting for the response and the full text is reported once it arrives.
+ */
+class HttpBackend implements ModelBackend {
+	constructor(
+		private endpoint: string,
+		private format: HttpApiFormat,
+		private model: string,
+		private headers: Record<string, string>,
+		private temperature: number,
+		private timeoutMs: number
+	) {}
+
+	async run(prompt: string, options: ModelRunOptions = {}): Promise<string> {
+		const { onOutput, signal } = options;
+		throwIfCancelled(signal);
+
+		if (!this.endpoint) {
+			throw new Error('No HTTP endpoint configured');
+		}
+
+		const body = buildHttpRequestBody(this.format, this.model, prompt, this.temperature);
+
+		const request = requestUrl({
+			url: this.endpoint,
+			method: 'POST',
+			contentType: 'application/json',
+			headers: this.headers,
+			body: JSON.stringify(body),
+			throw: false
+		});
+
+		const response = await this.raceWithCancellation(request, signal);
+
+		if (response.status >= 400) {
+			const details = response.text ? `: ${response.text.substring(0, 500)}` : '';
+			throw new Error(`${this.endpoint} returned HTTP ${response.status}${details}`);
+		}
+
+		let data: unknown;
+		try {
+			data = response.json;
+		} catch (error) {
+			throw new Error(`${this.endpoint} returned a response that is not JSON`);
+		}
+
+		const output = extractHttpResponseText(this.format, data);
+		if (typeof output !== 'string') {
+			throw new Error(`Unexpected response format from ${this.endpoint}`);
+		}
+
+		if (onOutput) {
+			onOutput(output);
+		}
+		return output;
+	}
+
+	private raceWithCancellation<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+		return new Promise((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | null = null;
+
+			const onAbort = () => {
+				cleanup();
+				reject(new CancelledError());
+			};
+
+			const cleanup = () => {
+				if (timer) {
+					clearTimeout(timer);
+				}
+				if (signal) {
+					signal.removeEventListener('abort', onAbort);
+				}
+			};
+
+			if (this.timeoutMs > 0) {
+				timer = setTimeout(() => {
+					cleanup();
+					reject(new Error(`${this.endpoint} timed out after ${Math.round(this.timeoutMs / 1000)} seconds`));
+				}, this.timeoutMs);
+			}
+
+			if (signal) {
+				signal.addEventListener('abort', onAbort);
+			}
+
+			promise.then(
+				value => {
+					cleanup();
+					resolve(value);
+				},
+				error => {
+					cleanup();
+					reject(new Error(`Request to ${this.endpoint} failed: ${error.message}`));
+				}
+			);
+		});
+	}
+}
+
+const STOPWORDS = new Set(('a about after again all also am an and any are as at be because been before being but by can could did do does doing down during each few for from further had has have having he her here hers him his how i if in into is it its just me more most my no nor not now of off on once only or other our out over own same she should so some such than that the their them then there these they this those through to too under until up very was we were what when where which while who whom why will with would you your').split(' '));
+
+function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(token => token.length > 1 && !STOPWORDS.has(token) && !/^\d+$/.test(token));
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+	const counts: Record<string, number> = {};
+	for (const token of tokens) {
+		counts[token] = (counts[token] || 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Split note content (without frontmatter) into passages of at most maxLength
+ * characters, keeping paragraphs together where they fit.
+ */
+function splitPassages(content: string, maxLength: number): string[] {
+	const passages: string[] = [];
+	let current = '';
+
+	for (const paragraph of stripFrontmatter(content).split(/\n\s*\n/)) {
+		const text = paragraph.trim();
+		if (!text) {
+			continue;
+		}
+
+		if (current && current.length + text.length + 2 > maxLength) {
+			passages.push(current);
+			current = '';
+		}
+
+		if (text.length > maxLength) {
+			for (let i = 0; i < text.length; i += maxLength) {
+				passages.push(text.substring(i, i + maxLength));
+			}
+		} else {
+			current = current ? `${current}\n\n${text}` : text;
+		}
+	}
+
+	if (current) {
+		passages.push(current);
+	}
+	return passages;
+}
+
+interface IndexedNote {
+	mtime: number;
+	length: number;
+	terms: Record<string, number>;
+}
+
+interface SearchIndexData {
+	version: number;
+	notes: Record<string, IndexedNote>;
+}
+
+interface SearchResult {
+	file: TFile;
+	score: number;
+	// Best-matching passages, in the order they appear in the note
+	passages: string[];
+}
+
+const SEARCH_INDEX_VERSION = 1;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Only the most distinctive terms of a long query note are scored
+const MAX_QUERY_TERMS = 60;
+
+/**
+ * BM25 full-text index over the vault's markdown notes. Only per-note term
+ * counts are stored; passages are picked from the top notes at query time.
+ * The index lives in its own file in the plugin folder so that saving it
+ * doesn't rewrite the settings.
+ */
+class SearchIndex {
+	private notes: Record<string, IndexedNote> = {};
+	private documentFrequency: Record<string, number> = {};
+	private totalLength = 0;
+	private dirty = false;
+	private readyPromise: Promise<void> | null = null;
+
+	constructor(private app: App, private indexPath: string) {}
+
+	get size(): number {
+		return Object.keys(this.notes).length;
+	}
+
+	// Resolves once the index has been loaded and brought up to date with the vault
+	ready(): Promise<void> {
+		if (!this.readyPromise) {
+			this.readyPromise = this.loadAndSync();
+		}
+		return this.readyPromise;
+	}
+
+	private async loadAndSync() {
+		try {
+			if (await this.app.vault.adapter.exists(this.indexPath)) {
+				const data: SearchIndexData = JSON.parse(await this.app.vault.adapter.read(this.indexPath));
+				if (data.version === SEARCH_INDEX_VERSION && data.notes) {
+					this.notes = data.notes;
+				}
+			}
+		} catch (error) {
+			console.warn('Could not load search index, rebuilding:', error);
+			this.notes = {};
+		}
+
+		this.recomputeStatistics();
+
+		// Index new and changed notes, and forget deleted ones
+		const files = this.app.vault.getMarkdownFiles();
+		const existing = new Set(files.map(file => file.path));
+		for (const path of Object.keys(this.notes)) {
+			if (!existing.has(path)) {
+				this.remove(path);
+			}
+		}
+		for (const file of files) {
+			const indexed = this.notes[file.path];
+			if (!indexed || indexed.mtime !== file.stat.mtime) {
+				await this.update(file);
+			}
+		}
+
+		await this.save();
+	}
+
+	private recomputeStatistics() {
+		this.documentFrequency = {};
+		this.totalLength = 0;
+		for (const note of Object.values(this.notes)) {
+			this.addStatistics(note, 1);
+		}
+	}
+
+	private addStatistics(note: IndexedNote, direction: 1 | -1) {
+		this.totalLength += direction * note.length;
+		for (const term of Object.keys(note.terms)) {
+			this.documentFrequency[term] = (this.documentFrequency[term] || 0) + direction;
+			if (this.documentFrequency[term] <= 0) {
+				delete this.documentFrequency[term];
+			}
+		}
+	}
+
+	async update(file: TFile) {
+		const content = await this.app.vault.cachedRead(file);
+		const tokens = tokenize(`${file.basename}\n${stripFrontmatter(content)}`);
+
+		this.remove(file.path);
+		const note: IndexedNote = { mtime: file.stat.mtime, length: tokens.length, terms: countTerms(tokens) };
+		this.notes[file.path] = note;
+		this.addStatistics(note, 1);
+		this.dirty = true;
+	}
+
+	remove(path: string) {
+		const note = this.notes[path];
+		if (note) {
+			this.addStatistics(note, -1);
+			delete this.notes[path];
+			this.dirty = true;
+		}
+	}
+
+	rename(oldPath: string, file: TFile) {
+		const note = this.notes[oldPath];
+		if (note) {
+			delete this.notes[oldPath];
+			this.notes[file.path] = note;
+			this.dirty = true;
+		}
+	}
+
+	async save() {
+		if (!this.dirty) {
+			return;
+		}
+		this.dirty = false;
+		const data: SearchIndexData = { version: SEARCH_INDEX_VERSION, notes: this.notes };
+		await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+	}
+
+	private idf(term: string): number {
+		const documentCount = this.size;
+		const frequency = this.documentFrequency[term] || 0;
+		return Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5));
+	}
+
+	private bm25(terms: Record<string, number>, length: number, averageLength: number, query: Record<string, number>): number {
+		let score = 0;
+		for (const term of Object.keys(query)) {
+			const frequency = terms[term];
+			if (!frequency) {
+				continue;
+			}
+			const saturation = (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+			score += this.idf(term) * saturation * Math.min(query[term], 3);
+		}
+		return score;
+	}
+
+	/**
+	 * Return the notes that best match queryText, each with up to
+	 * passagesPerNote of its best-matching passages. A transform is applied to
+	 * each whole note before it is split into passages.
+	 */
+	async search(queryText: string, options: { limit: number; passageLength: number; passagesPerNote: number; filter?: (file: TFile) => boolean; transform?: (content: string) => string }): Promise<SearchResult[]> {
+		await this.ready();
+
+		const queryCounts = countTerms(tokenize(queryText));
+		const query: Record<string, number> = {};
+		Object.keys(queryCounts)
+			.filter(term => this.documentFrequency[term])
+			.sort((a, b) => queryCounts[b] * this.idf(b) - queryCounts[a] * this.idf(a))
+			.slice(0, MAX_QUERY_TERMS)
+			.forEach(term => query[term] = queryCounts[term]);
+
+		const averageLength = this.size > 0 ? this.totalLength / this.size : 1;
+		const scored: { file: TFile; score: number }[] = [];
+		for (const path of Object.keys(this.notes)) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile) || (options.filter && !options.filter(file))) {
+				continue;
+			}
+			const note = this.notes[path];
+			const score = this.bm25(note.terms, note.length, averageLength, query);
+			if (score > 0) {
+				scored.push({ file, score });
+			}
+		}
+
+		scored.sort((a, b) => b.score - a.score);
+
+		const results: SearchResult[] = [];
+		for (const { file, score } of scored.slice(0, options.limit)) {
+			const content = await this.app.vault.cachedRead(file);
+			const passages = splitPassages(options.transform ? options.transform(content) : content, options.passageLength);
+			const passageTokens = passages.map(passage => tokenize(passage));
+			const averagePassageLength = Math.max(1, passageTokens.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(passages.length, 1));
+
+			const best = passages
+				.map((text, index) => ({
+					index,
+					text,
+					score: this.bm25(countTerms(passageTokens[index]), passageTokens[index].length, averagePassageLength, query)
+				}))
+				.sort((a, b) => b.score - a.score)
+				.slice(0, options.passagesPerNote)
+				.sort((a, b) => a.index - b.index)
+				.map(passage => passage.text);
+
+			results.push({ file, score, passages: best });
+		}
+
+		return results;
+	}
+}
+
+export default class JournalAnalyzerPlugin extends Plugin {
+	settings: JournalAnalyzerSettings;
+	analysisCache: AnalysisCache;
+	searchIndex: SearchIndex;
+	connectionLedger: ConnectionLedger;
+	connectionReview: ConnectionReviewState | null;
+	entryScores: EntryScoreStore;
+	entityIndex: EntityIndex;
+	quickJournalDraft: QuickJournalDraft | null;
+	questionLedger: QuestionLedger;
+	lastLinkBatch: LinkBatch | null = null;
+	jobQueue: JobQueue;
+	runHistory: RunHistory;
+	private jobStatusBar: HTMLElement;
+	private scheduleRunning = false;
+	// Scheduled periods that failed or were cancelled this session, so they aren't retried every check
+	private failedScheduledPeriods = new Set<string>();
+
+	async onload() {
+		await this.loadSettings();
+
+		this.jobQueue = new JobQueue(
+			() => this.settings.jobConcurrency,
+			job => this.onJobChanged(job),
+			job => this.notifyJobFinished(job)
+		);
+		this.registerView(JOBS_VIEW_TYPE, leaf => new JobsView(leaf, this));
+
+		this.runHistory = new RunHistory(this.app, normalizePath(`${this.manifest.dir}/run-history.jsonl`));
+		this.registerView(RUN_HISTORY_VIEW_TYPE, leaf => new RunHistoryView(leaf, this));
+		this.app.workspace.onLayoutReady(() => {
+			this.runHistory.prune(this.settings.runHistoryDays).catch(error => console.error('Error pruning run history:', error));
+		});
+
+		// Running and queued jobs; clicking opens the jobs panel
+		this.jobStatusBar = this.addStatusBarItem();
+		this.jobStatusBar.addClass('mod-clickable');
+		this.jobStatusBar.addEventListener('click', () => this.activateView(JOBS_VIEW_TYPE));
+		this.updateJobStatusBar();
+
+		// Add command to open the jobs panel
+		this.addCommand({
+			id: 'show-background-jobs',
+			name: 'Show Background Jobs',
+			callback: () => {
+				this.activateView(JOBS_VIEW_TYPE);
+			}
+		});
+
+		// Add command to browse past model runs
+		this.addCommand({
+			id: 'show-run-history',
+			name: 'Show Run History',
+			callback: () => {
+				this.activateView(RUN_HISTORY_VIEW_TYPE);
+			}
+		});
+
+		// Add command to analyze recent journal entries
+		this.addCommand({
+			id: 'analyze-recent-journal',
+			name: 'Analyze Recent Journal Entries',
+			callback: () => {
+				this.analyzeRecentJournal();
+			}
+		});
+
+		// Add command to analyze date range
+		this.addCommand({
+			id: 'analyze-date-range',
+			name: 'Analyze Journal Date Range',
+			callback: () => {
+				new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
+					await this.analyzeJournalRange(startDate, endDate);
+				}).open();
+			}
+		});
+
+		// Add command to analyze a date range with a chosen prompt template
+		this.addCommand({
+			id: 'analyze-date-range-with-template',
+			name: 'Analyze Journal Date Range With Template',
+			callback: () => {
+				new TemplateSuggestModal(this.app, this.listAnalysisTemplates(), (templateName: string) => {
+					new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
+						await this.analyzeJournalRange(startDate, endDate, templateName);
+					}).open();
+				}).open();
+			}
+		});
+
+		// Add command to build a week, month, quarter or year analysis from smaller ones
+		this.addCommand({
+			id: 'generate-period-rollup',
+			name: 'Generate Period Rollup',
+			callback: () => {
+				new RollupModal(this.app, async (period: RollupPeriod, date: string) => {
+					await this.analyzeRollup(getRollupRange(period, date));
+				}).open();
+			}
+		});
+
+		this.registerView(TIMELINE_VIEW_TYPE, leaf => new TimelineView(leaf, this));
+		this.registerView(ASK_VIEW_TYPE, leaf => new AskJournalView(leaf, this));
+
+		// Add command to open the journal chat panel
+		this.addCommand({
+			id: 'ask-your-journal',
+			name: 'Ask Your Journal',
+			callback: () => {
+				this.activateView(ASK_VIEW_TYPE);
+			}
+		});
+
+		// Add command to score entries on mood, energy and the other dimensions
+		this.addCommand({
+			id: 'score-journal-entries',
+			name: 'Score Journal Entries',
+			callback: () => {
+				new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
+					await this.scoreJournalEntries(startDate, endDate);
+				}).open();
+			}
+		});
+
+		// Add command to open the mood timeline chart
+		this.addCommand({
+			id: 'open-mood-timeline',
+			name: 'Open Mood Timeline',
+			callback: () => {
+				this.activateView(TIMELINE_VIEW_TYPE);
+			}
+		});
+
+		// Add command to collect people, organizations, places and projects into index notes
+		this.addCommand({
+			id: 'extract-entities',
+			name: 'Extract Entities',
+			callback: () => {
+				new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
+					await this.extractEntities(startDate, endDate);
+				}).open();
+			}
+		});
+
+		// Add command to rename or merge extracted entities
+		this.addCommand({
+			id: 'manage-entities',
+			name: 'Manage Entities',
+			callback: () => {
+				new EntityManagerModal(this.app, this).open();
+			}
+		});
+
+		// Add command to show the redacted analysis prompt for a range without sending it
+		this.addCommand({
+			id: 'preview-analysis-prompt',
+			name: 'Preview What Will Be Sent',
+			callback: () => {
+				new DateRangeModal(this.app, async (startDate: string, endDate: string) => {
+					try {
+						const preview = await this.buildAnalysisPreview(parseDateInput(startDate, 'start'), parseDateInput(endDate, 'end'));
+						new PromptPreviewModal(this.app, preview.summary, preview.prompt).open();
+					} catch (error) {
+						console.error('Error building prompt preview:', error);
+						new Notice(`Error building prompt preview: ${error.message}`);
+					}
+				}).open();
+			}
+		});
+
+		// Add command to compare two date ranges
+		this.addCommand({
+			id: 'compare-periods',
+			name: 'Compare Periods',
+			callback: () => {
+				new ComparePeriodsModal(this.app, async (first: DateRange, second: DateRange) => {
+					await this.comparePeriods(first, second);
+				}).open();
+			}
+		});
+
+		// Add command to list tracked questions and next steps that are still open
+		this.addCommand({
+			id: 'list-open-questions',
+			name: 'List Open Questions',
+			callback: () => {
+				new OpenQuestionsModal(this.app, this).open();
+			}
+		});
+
+		// Add command to write the built-in prompts to the template folder
+		this.addCommand({
+			id: 'reset-prompt-templates',
+			name: 'Reset Prompt Templates to Defaults',
+			callback: () => {
+				new ConfirmModal(
+					this.app,
+					'Reset Prompt Templates',
+					`This overwrites ${PROMPT_KINDS.map(kind => `${kind}.md`).join(', ')} in ${this.settings.promptTemplateFolder} with the built-in prompts.`,
+					'Reset',
+					() => this.resetPromptTemplates()
+				).open();
+			}
+		});
+
+		// Add command to find missing connections
+		this.addCommand({
+			id: 'find-missing-connections',
+			name: 'Find Missing Connections',
+			callback: () => {
+				this.findMissingConnections();
+			}
+		});
+
+		// Add command to find connections for many notes at once
+		this.addCommand({
+			id: 'find-connections-across-notes',
+			name: 'Find Connections Across Notes',
+			callback: () => {
+				new ConnectionReviewModal(this.app, this).open();
+			}
+		});
+
+		// Add command to apply the checked links in a connection review note
+		this.addCommand({
+			id: 'apply-reviewed-links',
+			name: 'Apply Reviewed Links',
+			callback: () => {
+				this.applyReviewedLinks();
+			}
+		});
+
+		// Add command to undo the last set of inserted links
+		this.addCommand({
+			id: 'revert-last-link-batch',
+			name: 'Revert Last Link Batch',
+			callback: () => {
+				this.revertLastLinkBatch();
+			}
+		});
+
+		// Add command for quick journal entry
+		this.addCommand({
+			id: 'quick-journal-entry',
+			name: 'Quick Journal Entry',
+			callback: () => {
+				new QuickJournalModal(this.app, this).open();
+			}
+		});
+
+		// Add command to clear cached analysis results
+		this.addCommand({
+			id: 'clear-analysis-cache',
+			name: 'Clear Analysis Cache',
+			callback: () => {
+				this.clearAnalysisCache();
+			}
+		});
+
+		// Add settings tab
+		this.addSettingTab(new JournalAnalyzerSettingTab(this.app, this));
+
+		this.registerSearchIndex();
+
+		// Run due scheduled reviews once the vault is loaded, then check periodically
+		this.app.workspace.onLayoutReady(() => {
+			this.checkScheduledAnalyses();
+		});
+		this.registerInterval(window.setInterval(() => this.checkScheduledAnalyses(), SCHEDULE_CHECK_INTERVAL_MS));
+	}
+
+	onunload() {
+		this.jobQueue.cancelAll();
+		this.searchIndex.save();
+	}
+
+	/**
+	 * Queue a model job to run in the background and record it in the run
+	 * history. Returns null, with a notice, when the same job is already queued
+	 * or running.
+	 */
+	startJob(key: string, title: string, inputs: RunInputs, run: (context: RunJobContext) => Promise<JobResult>): Job | null {
+		const job = this.jobQueue.enqueue(key, title, this.withRunLog(title, inputs, run));
+		if (!job) {
+			new Notice(`${title} is already queued or running`);
+			return null;
+		}
+		if (job.status === 'queued') {
+			new Notice(`${title} queued`);
+		}
+		return job;
+	}
+
+	/**
+	 * Run model work for an open view or dialog through the job queue, so it
+	 * waits for a free slot and shows in the jobs panel, and return its value.
+	 * Aborting the signal cancels the job.
+	 */
+	async runQueuedJob<T>(key: string, title: string, inputs: RunInputs, signal: AbortSignal | undefined, run: (context: RunJobContext) => Promise<T>): Promise<T> {
+		throwIfCancelled(signal);
+		let value: T | undefined;
+		const job = this.jobQueue.enqueue(key, title, this.withRunLog(title, inputs, async context => {
+			value = await run(context);
+			return { message: 'Done' };
+		}), false);
+		if (!job) {
+			throw new Error(`${title} is already queued or running`);
+		}
+
+		const cancel = () => this.jobQueue.cancel(job.id);
+		if (signal) {
+			signal.addEventListener('abort', cancel);
+		}
+		try {
+			await job.finished;
+		} finally {
+			if (signal) {
+				signal.removeEventListener('abort', cancel);
+			}
+		}
+
+		if (job.status === 'cancelled') {
+			throw new CancelledError();
+		}
+		if (job.status === 'failed') {
+			throw new Error(job.error || `${title} failed`);
+		}
+		return value as T;
+	}
+
+	withRunLog(title: string, inputs: RunInputs, run: (context: RunJobContext) => Promise<JobResult>): (context: JobContext) => Promise<JobResult> {
+		return context => this.recordRun(title, inputs, log => run({ ...context, log }), result => result.outputPath);
+	}
+
+	/**
+	 * Run work that calls the model and append its record to the run history,
+	 * whether it succeeds, fails or is cancelled.
+	 */
+	async recordRun<T>(title: string, inputs: RunInputs, run: (log: RunLog) => Promise<T>, getOutputFile: (result: T) => string | undefined = () => undefined): Promise<T> {
+		const log = new RunLog(title, inputs, this.settings.storeRunContent);
+		let result: T;
+		try {
+			result = await run(log);
+		} catch (error) {
+			await this.appendRunRecord(log.toRecord(error instanceof CancelledError ? 'cancelled' : 'failed', this.getBackendIdentity(), error.message));
+			throw error;
+		}
+		await this.appendRunRecord(log.toRecord('done', this.getBackendIdentity(), null, getOutputFile(result)));
+		return result;
+	}
+
+	async appendRunRecord(record: RunRecord) {
+		try {
+			await this.runHistory.append(record);
+		} catch (error) {
+			console.error('Error writing run history:', error);
+			return;
+		}
+		for (const leaf of this.app.workspace.getLeavesOfType(RUN_HISTORY_VIEW_TYPE)) {
+			if (leaf.view instanceof RunHistoryView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
+	// Whether a recorded run can be started again from the run history
+	canRerun(inputs: RunInputs): boolean {
+		if (inputs.command === 'ask' || inputs.command === 'expansion') {
+			return false;
+		}
+		if (inputs.command === 'connection-review') {
+			return this.connectionReview !== null && this.connectionReview.pending.length > 0;
+		}
+		return true;
+	}
+
+	// Start a recorded run again with the same inputs
+	async rerun(inputs: RunInputs) {
+		switch (inputs.command) {
+			case 'analysis':
+				await this.analyzeJournalRange(inputs.startDate, inputs.endDate, inputs.templateName);
+				break;
+			case 'rollup':
+				await this.analyzeRollup(getRollupRange(inputs.period, inputs.startDate));
+				break;
+			case 'comparison':
+				await this.comparePeriods(inputs.first, inputs.second);
+				break;
+			case 'scoring':
+				await this.scoreJournalEntries(inputs.startDate, inputs.endDate);
+				break;
+			case 'entities':
+				await this.extractEntities(inputs.startDate, inputs.endDate);
+				break;
+			case 'connections': {
+				const file = this.app.vault.getAbstractFileByPath(inputs.path);
+				if (!(file instanceof TFile)) {
+					new Notice(`Note not found: ${inputs.path}`);
+					return;
+				}
+				this.findConnectionsFor(file);
+				break;
+			}
+			case 'connection-review':
+				await this.runConnectionReview();
+				break;
+			default:
+				new Notice('This run can\'t be started again from the run history');
+		}
+	}
+
+	onJobChanged(job: Job) {
+		this.updateJobStatusBar();
+		for (const leaf of this.app.workspace.getLeavesOfType(JOBS_VIEW_TYPE)) {
+			if (leaf.view instanceof JobsView) {
+				leaf.view.update(job);
+			}
+		}
+	}
+
+	updateJobStatusBar() {
+		const active = this.jobQueue.active();
+		if (active.length === 0) {
+			this.jobStatusBar.hide();
+			return;
+		}
+
+		const running = active.filter(job => job.status === 'running');
+		const queued = active.length - running.length;
+		this.jobStatusBar.setText(`Journal Analyzer: ${running.length} running${queued > 0 ? `, ${queued} queued` : ''}`);
+		this.jobStatusBar.setAttr('title', running.map(job => job.title).join('\n'));
+		this.jobStatusBar.show();
+	}
+
+	// Report a finished job; clicking the notice opens its result
+	notifyJobFinished(job: Job) {
+		if (!job.notify) {
+			return;
+		}
+		if (job.status === 'failed') {
+			new Notice(`${job.title} failed: ${job.error}`);
+			return;
+		}
+		if (job.status === 'cancelled') {
+			new Notice(job.error && job.error !== 'Cancelled' ? `${job.title}: ${job.error}` : `${job.title} cancelled`);
+			return;
+		}
+
+		const result = job.result as JobResult;
+		const open = result.open;
+		if (!open) {
+			new Notice(`${job.title}: ${result.message}`);
+			return;
+		}
+		const notice = new Notice(`${job.title}: ${result.message}. Click to open.`, 15000);
+		notice.noticeEl.addEventListener('click', () => {
+			open();
+		});
+	}
+
+	// Keep the connection search index in sync with the vault
+	registerSearchIndex() {
+		this.searchIndex = new SearchIndex(this.app, normalizePath(`${this.manifest.dir}/search-index.json`));
+		const saveIndex = debounce(() => this.searchIndex.save(), 10000, true);
+
+		this.app.workspace.onLayoutReady(() => {
+			this.searchIndex.ready();
+
+			this.registerEvent(this.app.vault.on('create', async (file) => {
+				if (file instanceof TFile && file.extension === 'md') {
+					await this.searchIndex.update(file);
+					saveIndex();
+				}
+			}));
+
+			this.registerEvent(this.app.vault.on('modify', async (file) => {
+				if (file instanceof TFile && file.extension === 'md') {
+					await this.searchIndex.update(file);
+					saveIndex();
+				}
+			}));
+
+			this.registerEvent(this.app.vault.on('delete', (file) => {
+				this.searchIndex.remove(file.path);
+				saveIndex();
+			}));
+
+			this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.searchIndex.rename(oldPath, file);
+					saveIndex();
+					await this.renameInLedger(oldPath, file.path);
+					await this.renameEntryScores(oldPath, file.path);
+					await this.renameInEntityIndex(oldPath, file.path);
+					await this.renameInQuestionLedger(oldPath, file.path);
+				}
+			}));
+		});
+	}
+
+	async analyzeRecentJournal() {
+		const days = this.settings.daysToAnalyze;
+		const endDate = new Date();
+		const startDate = new Date();
+		startDate.setDate(startDate.getDate() - days);
+
+		const startDateStr = this.formatDate(startDate);
+		const endDateStr = this.formatDate(endDate);
+
+		await this.analyzeJournalRange(startDateStr, endDateStr);
+	}
+
+	async analyzeJournalRange(startDate: string, endDate: string, templateName?: string) {
+		const inputs: RunInputs = { command: 'analysis', startDate, endDate, templateName };
+		this.startJob(`analysis:${startDate}:${endDate}`, `Analysis ${startDate} to ${endDate}`, inputs, async ({ signal, progress, log }) => {
+			// Get all journal files in date range
+			progress('Finding journal entries...');
+			const journalFiles = await this.getJournalFilesInRange(startDate, endDate);
+
+			if (journalFiles.length === 0) {
+				return { message: 'No journal entries found in the specified range' };
+			}
+
+			const metaNote = await this.generateJournalAnalysis(journalFiles, startDate, endDate, {
+				signal,
+				onProgress: progress,
+				templateName,
+				log
+			});
+			return { message: `Analyzed ${journalFiles.length} entries`, open: () => this.openFile(metaNote.path), outputPath: metaNote.path };
+		});
+	}
+
+	/**
+	 * Where journal entries live and how they are named, taken from the core
+	 * Daily Notes plugin when that option is enabled and the plugin is on.
+	 */
+	getJournalLayout(): JournalLayout {
+		const { journalFolder, journalFolderPattern, journalDateFormat, journalTemplate } = this.settings;
+		const ownLayout: JournalLayout = {
+			folder: normalizeFolder(journalFolder),
+			pathFormat: journalFolderPattern ? `${journalFolderPattern}/${journalDateFormat}` : journalDateFormat,
+			template: journalTemplate
+		};
+
+		if (!this.settings.useDailyNotesSettings) {
+			return ownLayout;
+		}
+
+		// Daily Notes is a core plugin without a public API
+		const dailyNotes = (this.app as App & { internalPlugins?: InternalPlugins }).internalPlugins?.getPluginById?.('daily-notes');
+		const options: DailyNotesOptions | undefined = dailyNotes?.enabled ? dailyNotes.instance?.options : undefined;
+		if (!options) {
+			return ownLayout;
+		}
+
+		return {
+			folder: normalizeFolder(options.folder || ''),
+			pathFormat: options.format || DEFAULT_DAILY_NOTE_FORMAT,
+			template: options.template || ''
+		};
+	}
+
+	isInJournalFolder(file: TFile, layout: JournalLayout = this.getJournalLayout()): boolean {
+		if (file.path.startsWith(`${normalizeFolder(this.settings.metaFolder)}/`)) {
+			return false;
+		}
+		return layout.folder === '' || file.path.startsWith(`${layout.folder}/`);
+	}
+
+	/**
+	 * The YYYY-MM-DD date of a journal entry, from its frontmatter (when enabled),
+	 * its path relative to the journal folder, its basename, or a YYYY-MM-DD
+	 * anywhere in the basename, in that order. Null if it isn't a journal entry.
+	 */
+	getJournalDate(file: TFile, layout: JournalLayout = this.getJournalLayout()): string | null {
+		if (this.settings.useFrontmatterDate) {
+			const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.[this.settings.frontmatterDateField];
+			if (value) {
+				const date = moment(String(value), [moment.ISO_8601, layout.pathFormat], true);
+				if (date.isValid()) {
+					return date.format('YYYY-MM-DD');
+				}
+			}
+		}
+
+		const relativePath = (layout.folder ? file.path.substring(layout.folder.length + 1) : file.path).replace(/\.md$/, '');
+		const baseFormat = layout.pathFormat.split('/').pop() || layout.pathFormat;
+		for (const [value, format] of [[relativePath, layout.pathFormat], [file.basename, baseFormat]]) {
+			const date = moment(value, format, true);
+			if (date.isValid()) {
+				return date.format('YYYY-MM-DD');
+			}
+		}
+
+		const dateMatch = file.basename.match(/(\d{4}-\d{2}-\d{2})/);
+		return dateMatch && moment(dateMatch[1], 'YYYY-MM-DD', true).isValid() ? dateMatch[1] : null;
+	}
+
+	// Read and analyze the given entries, then write the meta note for the range
+	async generateJournalAnalysis(journalFiles: TFile[], startDate: string, endDate: string, options: AnalysisRunOptions = {}): Promise<TFile> {
+		const onProgress = options.onProgress || (() => {});
+
+		// Read all journal content
+		onProgress('Reading journal entries...');
+		const entries = await this.readJournalFiles(journalFiles);
+
+		// Analyze batch by batch, reusing cached batches whose entries didn't change
+		const analysis = await this.analyzeWithClaudeCode(entries, startDate, endDate, options);
+
+		// Create meta note with analysis
+		onProgress('Creating analysis note...');
+		return await this.createMetaNote(analysis, startDate, endDate);
+	}
+
+	async analyzeRollup(range: RollupRange) {
+		// Rollups write the same meta note as an analysis of their range
+		const inputs: RunInputs = { command: 'rollup', period: range.period, startDate: range.startDate, endDate: range.endDate };
+		this.startJob(`analysis:${range.startDate}:${range.endDate}`, `${range.label} rollup`, inputs, async ({ signal, progress, log }) => {
+			const metaNote = await this.generateRollup(range, { signal, onProgress: progress, log });
+			if (!metaNote) {
+				return { message: `No journal entries found for ${range.label}` };
+			}
+			return { message: 'Rollup complete', open: () => this.openFile(metaNote.path), outputPath: metaNote.path };
+		});
+	}
+
+	/**
+	 * Write the meta note for a period. Weeks are analyzed from journal entries;
+	 * longer periods are synthesized from their child analyses, generating any
+	 * that don't exist yet. Returns null when the period has no entries.
+	 */
+	async generateRollup(range: RollupRange, options: AnalysisRunOptions = {}): Promise<TFile | null> {
+		const onProgress = options.onProgress || (() => {});
+		const metaPath = this.getMetaNotePath(range.startDate, range.endDate);
+		const rollupFields = {
+			period: range.period,
+			parents: getRollupParents(range).map(parent => this.getRollupLink(parent))
+		};
+
+		if (range.period === 'week') {
+			const journalFiles = await this.getJournalFilesInRange(range.startDate, range.endDate);
+			if (journalFiles.length === 0) {
+				return null;
+			}
+
+			onProgress(`Reading ${range.label} (${journalFiles.length} entries)...`);
+			const entries = await this.readJournalFiles(journalFiles);
+			const analysis = await this.analyzeWithClaudeCode(entries, range.startDate, range.endDate, options);
+			return await this.createMetaNote(analysis, range.startDate, range.endDate, Object.assign(rollupFields, {
+				sources: journalFiles.map(file => `[[${this.app.metadataCache.fileToLinktext(file, metaPath, true)}]]`)
+			}));
+		}
+
+		// Reuse existing child analyses and generate the missing ones
+		const children: { range: RollupRange; file: TFile }[] = [];
+		for (const child of getRollupChildren(range)) {
+			throwIfCancelled(options.signal);
+			const existing = this.app.vault.getAbstractFileByPath(this.getMetaNotePath(child.startDate, child.endDate));
+			if (existing instanceof TFile) {
+				children.push({ range: child, file: existing });
+				continue;
+			}
+
+			onProgress(`Generating missing ${child.period} analysis: ${child.label}...`);
+			const file = await this.generateRollup(child, options);
+			if (file) {
+				children.push({ range: child, file });
+			}
+		}
+
+		if (children.length === 0) {
+			return null;
+		}
+
+		throwIfCancelled(options.signal);
+		const notes = await Promise.all(children.map(child => this.readMetaNote(child.file)));
+		if (options.log) {
+			for (let i = 0; i < children.length; i++) {
+				await options.log.addFile(children[i].file.path, notes[i].body);
+			}
+		}
+		const analysis = await this.synthesizeRollup(range, children.map((child, i) => ({ range: child.range, body: notes[i].body })), options);
+
+		onProgress('Creating analysis note...');
+		const metaNote = await this.createMetaNote(analysis, range.startDate, range.endDate, Object.assign(rollupFields,
+			{ sources: children.map(child => this.getRollupLink(child.range)) },
+			mergeChildFrontmatter(notes.map(note => note.frontmatter))));
+
+		// Child analyses written before this rollup existed (or by other commands) get their up link here
+		const link = this.getRollupLink(range);
+		for (const child of children) {
+			await this.app.fileManager.processFrontMatter(child.file, frontmatter => {
+				const parents: string[] = Array.isArray(frontmatter.parents) ? frontmatter.parents : [];
+				if (!parents.includes(link)) {
+					frontmatter.parents = parents.concat(link);
+				}
+				frontmatter.period = frontmatter.period || child.range.period;
+			});
+		}
+
+		return metaNote;
+	}
+
+	async synthesizeRollup(range: RollupRange, children: { range: RollupRange; body: string }[], options: AnalysisRunOptions = {}): Promise<JournalAnalysis> {
+		const onProgress = options.onProgress || (() => {});
+		const label = this.getBackendLabel();
+
+		try {
+			const templateName = options.templateName || this.settings.analysisTemplate;
+			const template = await this.loadPromptTemplate('analysis', templateName);
+			const childAnalyses = children
+				.map(child => `## ${child.range.label} (${child.range.startDate} to ${child.range.endDate})\n\n${child.body}`)
+				.join('\n\n---\n\n');
+
+			onProgress(`Synthesizing ${range.label} from ${children.length} analyses with ${label}...`);
+			const result = await this.runCachedModel(this.buildRollupPrompt(template, childAnalyses, range, children[0].range.period), {
+				signal: options.signal,
+				log: options.log,
+				template: templateName,
+				onOutput: output => onProgress(`Synthesizing ${range.label}...\n(${output.length} characters so far)`)
+			});
+
+			const data = parseStructuredAnalysis(result.output);
+			if (!data) {
+				console.warn('Rollup was not valid structured JSON, using raw output');
+			}
+
+			const journalFiles = (await this.getJournalFilesInRange(range.startDate, range.endDate)).filter(file => !this.isExcludedFromAnalysis(file));
+			const body = this.verifyCitations(data ? renderStructuredAnalysis(data) : result.output, journalFiles, this.getMetaNotePath(range.startDate, range.endDate));
+
+			return {
+				body: `${body}
+
+---
+*Generated by Journal Analyzer Plugin*
+*Analyses combined: ${children.length}*
+*Generated: ${new Date().toLocaleString()}*`,
+				data
+			};
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			console.error(`Error calling ${label}:`, error);
+			throw new Error(`Failed to analyze with ${label}: ${error.message}`);
+		}
+	}
+
+	async comparePeriods(first: DateRange, second: DateRange) {
+		const key = `comparison:${first.startDate}:${first.endDate}:${second.startDate}:${second.endDate}`;
+		const title = `Comparison of ${first.startDate} to ${first.endDate} with ${second.startDate} to ${second.endDate}`;
+		this.startJob(key, title, { command: 'comparison', first, second }, async ({ signal, progress, log }) => {
+			const firstNote = await this.getOrCreateAnalysis(first, progress, signal, log);
+			const secondNote = await this.getOrCreateAnalysis(second, progress, signal, log);
+			throwIfCancelled(signal);
+
+			const metaNote = await this.createComparisonNote(first, firstNote, second, secondNote, { signal, onProgress: progress, log });
+			return { message: 'Comparison complete', open: () => this.openFile(metaNote.path), outputPath: metaNote.path };
+		});
+	}
+
+	// The meta note for a range, analyzing the range first if there isn't one
+	async getOrCreateAnalysis(range: DateRange, onProgress: (message: string) => void, signal: AbortSignal, log?: RunLog): Promise<TFile> {
+		const existing = this.app.vault.getAbstractFileByPath(this.getMetaNotePath(range.startDate, range.endDate));
+		if (existing instanceof TFile) {
+			return existing;
+		}
+
+		onProgress(`Finding journal entries from ${range.startDate} to ${range.endDate}...`);
+		const journalFiles = await this.getJournalFilesInRange(range.startDate, range.endDate);
+		if (journalFiles.length === 0) {
+			throw new Error(`No journal entries found from ${range.startDate} to ${range.endDate}`);
+		}
+
+		return await this.generateJournalAnalysis(journalFiles, range.startDate, range.endDate, {
+			signal,
+			log,
+			onProgress: message => onProgress(`${range.startDate} to ${range.endDate}: ${message}`)
+		});
+	}
+
+	/**
+	 * Theme and mood changes are computed from the two analyses' frontmatter;
+	 * the model describes the summary and pattern shifts from their text.
+	 */
+	async createComparisonNote(first: DateRange, firstFile: TFile, second: DateRange, secondFile: TFile, options: AnalysisRunOptions = {}): Promise<TFile> {
+		const onProgress = options.onProgress || (() => {});
+		const label = this.getBackendLabel();
+		const firstNote = await this.readMetaNote(firstFile);
+		const secondNote = await this.readMetaNote(secondFile);
+		if (options.log) {
+			await options.log.addFile(firstFile.path, firstNote.body);
+			await options.log.addFile(secondFile.path, secondNote.body);
+		}
+		const firstRange = `${first.startDate} to ${first.endDate}`;
+		const secondRange = `${second.startDate} to ${second.endDate}`;
+
+		const themes = compareThemeCounts(firstNote.frontmatter, secondNote.frontmatter);
+		const moodBefore = typeof firstNote.frontmatter.mood_average === 'number' ? firstNote.frontmatter.mood_average : null;
+		const moodAfter = typeof secondNote.frontmatter.mood_average === 'number' ? secondNote.frontmatter.mood_average : null;
+
+		let output: string;
+		try {
+			const template = await this.loadPromptTemplate('comparison');
+			onProgress(`Comparing periods with ${label}...\n(This may take 30-60 seconds)`);
+			const result = await this.runCachedModel(renderPromptTemplate(template, {
+				firstRange,
+				secondRange,
+				themeChanges: renderThemeChanges(themes),
+				firstAnalysis: firstNote.body,
+				secondAnalysis: secondNote.body
+			}), {
+				signal: options.signal,
+				log: options.log,
+				template: 'comparison',
+				onOutput: output => onProgress(`Receiving comparison from ${label}...\n(${output.length} characters so far)`)
+			});
+			output = result.output;
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			console.error(`Error calling ${label}:`, error);
+			throw new Error(`Failed to compare with ${label}: ${error.message}`);
+		}
+
+		const comparison = parseComparisonAnalysis(output);
+		if (!comparison) {
+			console.warn('Comparison was not valid structured JSON, using raw output');
+		}
+
+		onProgress('Creating comparison note...');
+		const path = normalizePath(`${this.settings.metaFolder}/comparison-${first.startDate}-to-${first.endDate}-vs-${second.startDate}-to-${second.endDate}.md`);
+		const firstLink = `[[${this.app.metadataCache.fileToLinktext(firstFile, path, true)}|${firstRange}]]`;
+		const secondLink = `[[${this.app.metadataCache.fileToLinktext(secondFile, path, true)}|${secondRange}]]`;
+
+		const fields: Record<string, unknown> = {
+			date: this.formatDate(new Date()),
+			type: 'journal-comparison',
+			tags: ['meta', 'comparison', 'journal'],
+			first_start: first.startDate,
+			first_end: first.endDate,
+			second_start: second.startDate,
+			second_end: second.endDate,
+			first_analysis: firstLink,
+			second_analysis: secondLink,
+			themes_appeared: themes.appeared.map(change => change.name),
+			themes_disappeared: themes.disappeared.map(change => change.name),
+			themes_grew: themes.grew.map(change => change.name),
+			themes_shrank: themes.shrank.map(change => change.name)
+		};
+		if (moodBefore !== null && moodAfter !== null) {
+			fields.mood_before = moodBefore;
+			fields.mood_after = moodAfter;
+			fields.mood_delta = Math.round((moodAfter - moodBefore) * 10) / 10;
+		}
+
+		const sections = [`Comparing ${firstLink} with ${secondLink}.`];
+		if (comparison) {
+			if (comparison.summary) {
+				sections.push(`## Summary\n\n${comparison.summary}`);
+			}
+			sections.push(`## Theme Changes\n\n${renderThemeChanges(themes)}`);
+			sections.push('## Pattern Shifts\n\n' + (comparison.patternShifts.length > 0
+				? comparison.patternShifts.map(shift => `- ${shift}`).join('\n')
+				: '_None identified._'));
+		} else {
+			sections.push(`## Theme Changes\n\n${renderThemeChanges(themes)}`);
+			sections.push(`## Comparison\n\n${output}`);
+		}
+		sections.push('## Mood\n\n' + (moodBefore !== null && moodAfter !== null
+			? `Average mood went from ${moodBefore} to ${moodAfter} (${fields.mood_delta as number >= 0 ? '+' : ''}${fields.mood_delta}).`
+			: '_Mood scores are missing from at least one of the analyses._'));
+		if (comparison && comparison.questions.length > 0) {
+			sections.push(`## Questions to Consider\n\n${comparison.questions.map(question => `- ${question}`).join('\n')}`);
+		}
+
+		const content = `---
+${stringifyYaml(fields)}---
+
+${sections.join('\n\n')}
+
+---
+*Generated by Journal Analyzer Plugin*
+*Generated: ${new Date().toLocaleString()}*`;
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			return existing;
+		}
+		return await this.app.vault.create(path, content);
+	}
+
+	// Open questions raised before a date (all of them without one), oldest first
+	getOpenQuestions(before?: string): TrackedQuestion[] {
+		return Object.values(this.questionLedger.questions)
+			.filter(question => question.status === 'open' && (!before || question.raisedOn < before))
+			.sort((a, b) => a.raisedOn.localeCompare(b.raisedOn) || parseInt(a.id.substring(1)) - parseInt(b.id.substring(1)));
+	}
+
+	// Add questions to the ledger; re-running the same analysis doesn't add them twice
+	async trackQuestions(texts: string[], kind: QuestionKind, raisedOn: string, source: string) {
+		const known = new Set(Object.values(this.questionLedger.questions)
+			.filter(question => question.source === source)
+			.map(question => question.text.toLowerCase()));
+
+		let added = 0;
+		for (const text of texts) {
+			if (known.has(text.toLowerCase())) {
+				continue;
+			}
+			const id = `Q${this.questionLedger.nextId++}`;
+			this.questionLedger.questions[id] = { id, text, kind, raisedOn, source, status: 'open', resolvedOn: null, addressedIn: [], notes: [] };
+			known.add(text.toLowerCase());
+			added++;
+		}
+
+		if (added > 0) {
+			await this.saveSettings();
+		}
+	}
+
+	// Record which entries addressed each question, resolving the ones the model says are settled
+	async applyFollowUps(followUps: FollowUp[], entries: JournalEntry[], endDate: string) {
+		for (const followUp of followUps) {
+			const question = this.questionLedger.questions[followUp.id];
+			if (!question) {
+				continue;
+			}
+			const paths = entries.filter(entry => followUp.entries.includes(entry.date)).map(entry => entry.file.path);
+			question.addressedIn = Array.from(new Set([...question.addressedIn, ...paths]));
+			if (followUp.note && !question.notes.includes(followUp.note)) {
+				question.notes.push(followUp.note);
+			}
+			if (followUp.status === 'resolved' && question.status === 'open') {
+				question.status = 'resolved';
+				question.resolvedOn = followUp.entries.slice().sort().pop() || endDate;
+			}
+		}
+
+		if (followUps.length > 0) {
+			await this.saveSettings();
+		}
+	}
+
+	renderFollowUps(followUps: FollowUp[], entries: JournalEntry[], sourcePath: string): string {
+		const lines = followUps.map(followUp => {
+			const question = this.questionLedger.questions[followUp.id];
+			const citations = entries
+				.filter(entry => followUp.entries.includes(entry.date))
+				.map(entry => `[[${this.app.metadataCache.fileToLinktext(entry.file, sourcePath, true)}|${entry.date}]]`);
+			return `- **${followUp.id}** (${followUp.status}): ${question ? question.text : ''}${followUp.note ? ` - ${followUp.note}` : ''}${citations.length > 0 ? ` (${citations.join(', ')})` : ''}`;
+		});
+		return `## Follow-up on Open Questions\n\n${lines.join('\n')}`;
+	}
+
+	async setQuestionStatus(id: string, status: TrackedQuestion['status']) {
+		const question = this.questionLedger.questions[id];
+		if (question) {
+			question.status = status;
+			question.resolvedOn = status === 'resolved' ? this.formatDate(new Date()) : null;
+			await this.saveSettings();
+		}
+	}
+
+	async renameInQuestionLedger(oldPath: string, newPath: string) {
+		let changed = false;
+		for (const question of Object.values(this.questionLedger.questions)) {
+			if (question.source === oldPath) {
+				question.source = newPath;
+				changed = true;
+			}
+			if (question.addressedIn.includes(oldPath)) {
+				question.addressedIn = question.addressedIn.map(path => path === oldPath ? newPath : path);
+				changed = true;
+			}
+		}
+
+		if (changed) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Check an analysis's citations against the journal files it was based on,
+	 * resolving them by entry date or link text, and append the citation check.
+	 */
+	verifyCitations(body: string, journalFiles: TFile[], sourcePath: string): string {
+		const layout = this.getJournalLayout();
+		const byDate = new Map<string, TFile>();
+		for (const file of journalFiles) {
+			const date = this.getJournalDate(file, layout);
+			if (date && !byDate.has(date)) {
+				byDate.set(date, file);
+			}
+		}
+		const analyzed = new Set(journalFiles.map(file => file.path));
+
+		const check = checkCitations(body, target => {
+			const file = byDate.get(target) || this.app.metadataCache.getFirstLinkpathDest(target, sourcePath);
+			if (!file) {
+				return { error: 'no such note' };
+			}
+			if (!analyzed.has(file.path)) {
+				return { error: 'not one of the analyzed entries' };
+			}
+			return { link: this.app.metadataCache.fileToLinktext(file, sourcePath, true) };
+		});
+
+		return `${check.body}\n\n${renderCitationCheck(check)}`;
+	}
+
+	getRollupLink(range: RollupRange): string {
+		return `[[${this.getMetaNotePath(range.startDate, range.endDate).replace(/\.md$/, '')}|${range.label}]]`;
+	}
+
+	// A meta note's frontmatter and its analysis without the generated footer
+	async readMetaNote(file: TFile): Promise<MetaNoteContent> {
+		const content = await this.app.vault.read(file);
+		const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+		return {
+			body: stripFrontmatter(content).replace(/\n---\n\*Generated by Journal Analyzer Plugin\*[\s\S]*$/, '').trim(),
+			frontmatter: match ? parseYaml(match[1]) || {} : {}
+		};
+	}
+
+	// Scores for a dimension list, from the entry's frontmatter
+	getFrontmatterScores(file: TFile, dimensions: string[]): Record<string, number> {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+		const scores: Record<string, number> = {};
+		for (const dimension of dimensions) {
+			const score = asScore(frontmatter[dimension]);
+			if (score !== null) {
+				scores[dimension] = score;
+			}
+		}
+		return scores;
+	}
+
+	/**
+	 * Journal entries in a range with their scores. Frontmatter values win over
+	 * inferred scores kept in plugin data; when scores are recorded by hand,
+	 * only frontmatter is read.
+	 */
+	async getScoredEntries(startDate: string, endDate: string): Promise<ScoredEntry[]> {
+		const dimensions = parseDimensions(this.settings.scoreDimensions);
+		const layout = this.getJournalLayout();
+		const journalFiles = await this.getJournalFilesInRange(startDate, endDate);
+
+		return journalFiles.map(file => {
+			const stored = this.settings.scoreSource === 'infer' ? this.entryScores[file.path]?.scores : undefined;
+			return {
+				file,
+				date: this.getJournalDate(file, layout) || '',
+				scores: Object.assign({}, stored, this.getFrontmatterScores(file, dimensions))
+			};
+		});
+	}
+
+	// Ask the model to score entries in the range that are missing any dimension
+	async scoreJournalEntries(startDate: string, endDate: string) {
+		if (this.settings.scoreSource === 'frontmatter') {
+			new Notice('Scores are read from frontmatter. Set Score Source to "Infer with the model" to score entries.');
+			return;
+		}
+
+		const dimensions = parseDimensions(this.settings.scoreDimensions);
+		if (dimensions.length === 0) {
+			new Notice('No score dimensions configured');
+			return;
+		}
+
+		this.startJob(`scores:${startDate}:${endDate}`, `Scoring ${startDate} to ${endDate}`, { command: 'scoring', startDate, endDate }, async ({ signal, progress, log }) => {
+			progress('Finding journal entries...');
+			const scored = await this.getScoredEntries(startDate, endDate);
+			const unscored = scored.filter(entry => dimensions.some(dimension => !(dimension in entry.scores))).map(entry => entry.file);
+			if (unscored.length === 0) {
+				return { message: 'All entries in the range are already scored' };
+			}
+
+			const template = await this.loadPromptTemplate('scoring');
+			const batches = this.batchJournalEntries(await this.readJournalFiles(unscored));
+			for (const batch of batches) {
+				for (const entry of batch.entries) {
+					await log.addFile(entry.file.path, entry.content);
+				}
+			}
+			let count = 0;
+
+			try {
+				for (let i = 0; i < batches.length; i++) {
+					throwIfCancelled(signal);
+					const status = `Scoring batch ${i + 1} of ${batches.length} (${batches[i].startDate} to ${batches[i].endDate})`;
+					progress(`${status}...`);
+
+					const entries = batches[i].entries;
+					const prompt = renderPromptTemplate(template, {
+						dimensions: dimensions.join(', '),
+						entries: formatNumberedEntries(entries)
+					});
+					const { output } = await this.runCachedModel(prompt, {
+						signal,
+						log,
+						template: 'scoring',
+						onOutput: output => progress(`${status}...\n(${output.length} characters so far)`)
+					});
+
+					let items: unknown[];
+					try {
+						items = extractJsonArray(output);
+					} catch (parseError) {
+						console.warn('Could not parse entry scores, retrying:', parseError.message, output);
+						progress(`Response was not valid JSON, asking ${this.getBackendLabel()} to repair it...`);
+						items = extractJsonArray(await this.runModel(buildJsonRepairPrompt(output, parseError.message), { signal, log, template: 'json-repair' }));
+					}
+
+					for (const [index, scores] of parseEntryScores(items, dimensions, entries.length)) {
+						await this.storeEntryScores(entries[index - 1], scores);
+						count++;
+					}
+					await this.saveSettings();
+				}
+			} finally {
+				// Show the scores of batches that finished, even after an error
+				this.refreshTimelineViews();
+			}
+
+			return { message: `Scored ${count} of ${unscored.length} entries`, open: () => this.activateView(TIMELINE_VIEW_TYPE) };
+		});
+	}
+
+	// Write inferred scores without replacing ones already recorded
+	async storeEntryScores(entry: JournalEntry, scores: Record<string, number>) {
+		if (this.settings.scoreStorage === 'frontmatter') {
+			await this.app.fileManager.processFrontMatter(entry.file, frontmatter => {
+				for (const [dimension, score] of Object.entries(scores)) {
+					if (asScore(frontmatter[dimension]) === null) {
+						frontmatter[dimension] = score;
+					}
+				}
+			});
+			return;
+		}
+
+		const stored = this.entryScores[entry.file.path];
+		this.entryScores[entry.file.path] = {
+			date: entry.date,
+			scores: Object.assign({}, scores, stored?.scores)
+		};
+	}
+
+	async renameEntryScores(oldPath: string, newPath: string) {
+		if (this.entryScores[oldPath]) {
+			this.entryScores[newPath] = this.entryScores[oldPath];
+			delete this.entryScores[oldPath];
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Extract entities from entries in the range that changed since their last
+	 * extraction, then update the index notes of every entity they mention.
+	 */
+	async extractEntities(startDate: string, endDate: string) {
+		// Extractions share the entity index, so only one runs at a time
+		this.startJob('entities', `Entity extraction ${startDate} to ${endDate}`, { command: 'entities', startDate, endDate }, async ({ signal, progress, log }) => {
+			progress('Finding journal entries...');
+			const entries = await this.readJournalFiles(await this.getJournalFilesInRange(startDate, endDate));
+
+			const hashes = new Map<string, string>();
+			for (const entry of entries) {
+				hashes.set(entry.file.path, await hashContent(entry.content));
+			}
+			const changed = entries.filter(entry => this.entityIndex.processed[entry.file.path] !== hashes.get(entry.file.path));
+			if (changed.length === 0) {
+				return { message: entries.length === 0 ? 'No journal entries found in the specified range' : 'Entities are up to date for this range' };
+			}
+
+			const touched = new Set<string>();
+			try {
+				const template = await this.loadPromptTemplate('entities');
+				const batches = this.batchJournalEntries(changed);
+				for (const entry of changed) {
+					await log.addFile(entry.file.path, entry.content);
+				}
+
+				for (let i = 0; i < batches.length; i++) {
+					throwIfCancelled(signal);
+					const batch = batches[i];
+					const status = `Extracting entities from batch ${i + 1} of ${batches.length} (${batch.startDate} to ${batch.endDate})`;
+					progress(`${status}...`);
+
+					const prompt = renderPromptTemplate(template, {
+						knownEntities: this.describeKnownEntities(),
+						entries: formatNumberedEntries(batch.entries)
+					});
+					const { output } = await this.runCachedModel(prompt, {
+						signal,
+						log,
+						template: 'entities',
+						onOutput: output => progress(`${status}...\n(${output.length} characters so far)`)
+					});
+
+					let items: unknown[];
+					try {
+						items = extractJsonArray(output);
+					} catch (parseError) {
+						console.warn('Could not parse extracted entities, retrying:', parseError.message, output);
+						progress(`Response was not valid JSON, asking ${this.getBackendLabel()} to repair it...`);
+						items = extractJsonArray(await this.runModel(buildJsonRepairPrompt(output, parseError.message), { signal, log, template: 'json-repair' }));
+					}
+
+					// Re-extracted entries replace their earlier mentions
+					for (const entry of batch.entries) {
+						this.removeEntityMentions(entry.file.path, touched);
+					}
+					const aliasMap = buildEntityAliasMap(this.entityIndex.entities);
+					for (const extracted of parseExtractedEntities(items, batch.entries.length)) {
+						touched.add(this.recordEntityMention(extracted, batch.entries[extracted.entry - 1], aliasMap));
+					}
+					for (const entry of batch.entries) {
+						this.entityIndex.processed[entry.file.path] = hashes.get(entry.file.path) as string;
+					}
+					await this.saveSettings();
+				}
+			} catch (error) {
+				// Keep the notes in step with batches that finished before the error
+				await this.writeEntityNotes(touched);
+				throw error;
+			}
+
+			progress(`Updating ${touched.size} entity notes...`);
+			await this.writeEntityNotes(touched);
+			return { message: `Updated ${touched.size} entities from ${changed.length} entries`, open: () => new EntityManagerModal(this.app, this).open() };
+		});
+	}
+
+	describeKnownEntities(): string {
+		const entities = Object.values(this.entityIndex.entities)
+			.sort((a, b) => b.mentions.length - a.mentions.length)
+			.slice(0, MAX_KNOWN_ENTITIES);
+		if (entities.length === 0) {
+			return '(none yet)';
+		}
+		return entities
+			.map(entity => `- ${entity.name} (${entity.type}${entity.aliases.length > 0 ? `; also: ${entity.aliases.join(', ')}` : ''})`)
+			.join('\n');
+	}
+
+	removeEntityMentions(path: string, touched: Set<string>) {
+		for (const entity of Object.values(this.entityIndex.entities)) {
+			const mentions = entity.mentions.filter(mention => mention.path !== path);
+			if (mentions.length !== entity.mentions.length) {
+				entity.mentions = mentions;
+				touched.add(entity.name);
+			}
+		}
+	}
+
+	// Add a mention to the entity it resolves to through the alias map, creating the entity if needed
+	recordEntityMention(extracted: ExtractedEntity, entry: JournalEntry, aliasMap: Map<string, string>): string {
+		const existing = [extracted.name, ...extracted.aliases]
+			.map(name => aliasMap.get(normalizeEntityName(name)))
+			.find(name => name !== undefined);
+		const name = existing || extracted.name;
+
+		const entity = this.entityIndex.entities[name] || (this.entityIndex.entities[name] = {
+			name,
+			type: extracted.type,
+			aliases: [],
+			mentions: []
+		});
+
+		aliasMap.set(normalizeEntityName(name), name);
+		for (const alias of [extracted.name, ...extracted.aliases]) {
+			const key = normalizeEntityName(alias);
+			if (key && !aliasMap.has(key)) {
+				entity.aliases.push(alias);
+				aliasMap.set(key, name);
+			}
+		}
+
+		entity.mentions.push({ path: entry.file.path, date: entry.date, context: extracted.context });
+		return name;
+	}
+
+	getEntityNotePath(name: string): string {
+		return normalizePath(`${this.settings.entityFolder}/${entityNoteName(name)}.md`);
+	}
+
+	async writeEntityNotes(names: Set<string>) {
+		for (const name of names) {
+			const entity = this.entityIndex.entities[name];
+			if (entity) {
+				await this.writeEntityNote(entity);
+			}
+		}
+		await this.saveSettings();
+	}
+
+	/**
+	 * Create or update an entity's index note. Only the Mentions section and the
+	 * type and aliases frontmatter are written; anything else in the note is
+	 * kept, and aliases added there by hand are picked up into the alias map.
+	 */
+	async writeEntityNote(entity: EntityRecord) {
+		const path = this.getEntityNotePath(entity.name);
+		const mentions = entity.mentions
+			.slice()
+			.sort((a, b) => a.date.localeCompare(b.date))
+			.map(mention => {
+				const target = this.app.vault.getAbstractFileByPath(mention.path);
+				const link = target instanceof TFile ? this.app.metadataCache.fileToLinktext(target, path, true) : mention.path.replace(/\.md$/, '');
+				return `- ${mention.date} [[${link}]]${mention.context ? `: "${mention.context}"` : ''}`;
+			})
+			.join('\n') || '_No mentions._';
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (!(existing instanceof TFile)) {
+			const folder = normalizeFolder(this.settings.entityFolder);
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			const frontmatter = stringifyYaml({ type: entity.type, aliases: entity.aliases, tags: ['entity'] });
+			await this.app.vault.create(path, `---\n${frontmatter}---\n\n# ${entity.name}\n\n${ENTITY_MENTIONS_HEADING}\n\n${mentions}\n`);
+			return;
+		}
+
+		const noteAliases = parseFrontMatterAliases(this.app.metadataCache.getFileCache(existing)?.frontmatter || null) || [];
+		const known = new Set(entity.aliases.map(normalizeEntityName));
+		for (const alias of noteAliases) {
+			if (!known.has(normalizeEntityName(alias)) && normalizeEntityName(alias) !== normalizeEntityName(entity.name)) {
+				entity.aliases.push(alias);
+				known.add(normalizeEntityName(alias));
+			}
+		}
+
+		await this.app.vault.process(existing, content => replaceSection(content, ENTITY_MENTIONS_HEADING, mentions));
+		await this.app.fileManager.processFrontMatter(existing, frontmatter => {
+			frontmatter.type = entity.type;
+			frontmatter.aliases = entity.aliases;
+		});
+	}
+
+	// Rename an entity and its note, keeping the old name as an alias
+	async renameEntity(oldName: string, newName: string) {
+		const entity = this.entityIndex.entities[oldName];
+		newName = newName.trim();
+		if (!entity || !entityNoteName(newName) || newName === oldName) {
+			return;
+		}
+		if (this.entityIndex.entities[newName]) {
+			new Notice(`An entity named "${newName}" already exists. Merge into it instead.`);
+			return;
+		}
+
+		delete this.entityIndex.entities[oldName];
+		entity.name = newName;
+		entity.aliases = entity.aliases.filter(alias => normalizeEntityName(alias) !== normalizeEntityName(newName));
+		if (!entity.aliases.some(alias => normalizeEntityName(alias) === normalizeEntityName(oldName))) {
+			entity.aliases.push(oldName);
+		}
+		this.entityIndex.entities[newName] = entity;
+
+		const note = this.app.vault.getAbstractFileByPath(this.getEntityNotePath(oldName));
+		if (note instanceof TFile) {
+			await this.app.fileManager.renameFile(note, this.getEntityNotePath(newName));
+		}
+		await this.writeEntityNotes(new Set([newName]));
+	}
+
+	// Fold one entity into another; its names become aliases and its note is moved to the trash
+	async mergeEntities(sourceName: string, targetName: string) {
+		const source = this.entityIndex.entities[sourceName];
+		const target = this.entityIndex.entities[targetName];
+		if (!source || !target || source === target) {
+			return;
+		}
+
+		const known = new Set([target.name, ...target.aliases].map(normalizeEntityName));
+		for (const alias of [source.name, ...source.aliases]) {
+			if (!known.has(normalizeEntityName(alias))) {
+				target.aliases.push(alias);
+				known.add(normalizeEntityName(alias));
+			}
+		}
+		const mentionKeys = new Set(target.mentions.map(mention => `${mention.path}|${mention.context}`));
+		target.mentions.push(...source.mentions.filter(mention => !mentionKeys.has(`${mention.path}|${mention.context}`)));
+		delete this.entityIndex.entities[sourceName];
+
+		const note = this.app.vault.getAbstractFileByPath(this.getEntityNotePath(sourceName));
+		if (note instanceof TFile) {
+			await this.app.fileManager.trashFile(note);
+		}
+		await this.writeEntityNotes(new Set([targetName]));
+	}
+
+	async renameInEntityIndex(oldPath: string, newPath: string) {
+		let changed = false;
+		for (const entity of Object.values(this.entityIndex.entities)) {
+			for (const mention of entity.mentions) {
+				if (mention.path === oldPath) {
+					mention.path = newPath;
+					changed = true;
+				}
+			}
+		}
+		if (this.entityIndex.processed[oldPath]) {
+			this.entityIndex.processed[newPath] = this.entityIndex.processed[oldPath];
+			delete this.entityIndex.processed[oldPath];
+			changed = true;
+		}
+
+		if (changed) {
+			await this.saveSettings();
+		}
+	}
+
+	// Reveal the plugin's view of this type, opening it in the right sidebar if needed
+	async activateView(viewType: string) {
+		let leaf = this.app.workspace.getLeavesOfType(viewType)[0];
+		if (!leaf) {
+			const rightLeaf = this.app.workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: viewType, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Answer a question from the journal entries most relevant to it and to the
+	 * previous question. Citations in the answer are checked against the
+	 * entries that were sent.
+	 */
+	async askJournal(question: string, history: ChatTurn[], options: ModelRunOptions = {}): Promise<ChatTurn> {
+		return await this.runQueuedJob('ask', `Ask: ${question}`, { command: 'ask', question }, options.signal, context => this.answerQuestion(question, history, context, options.onOutput));
+	}
+
+	async answerQuestion(question: string, history: ChatTurn[], { signal, progress, log }: RunJobContext, onOutput?: (output: string) => void): Promise<ChatTurn> {
+		progress('Searching journal entries...');
+		const layout = this.getJournalLayout();
+		const previous = history.length > 0 ? history[history.length - 1].question : '';
+		const results = await this.searchIndex.search(`${question}\n${previous}`, {
+			limit: ASK_ENTRY_COUNT,
+			passageLength: ASK_PASSAGE_LENGTH,
+			passagesPerNote: PASSAGES_PER_CANDIDATE,
+			filter: file => this.isInJournalFolder(file, layout) && this.getJournalDate(file, layout) !== null && !this.isExcludedFromAnalysis(file),
+			transform: content => this.stripPrivateContent(content)
+		});
+		throwIfCancelled(signal);
+
+		const sources = results
+			.map(result => ({
+				file: result.file,
+				date: this.getJournalDate(result.file, layout) as string,
+				text: result.passages.map(passage => passage.trim()).filter(passage => passage).join('\n\n...\n\n')
+			}))
+			.sort((a, b) => a.date.localeCompare(b.date));
+		const entries = sources
+			.map(source => `## Entry: ${source.date}\n\n${source.text}`)
+			.join('\n\n');
+		const turns = history.slice(-ASK_HISTORY_TURNS)
+			.map(turn => `User: ${turn.question}\nAssistant: ${turn.answer}`)
+			.join('\n\n');
+
+		const template = await this.loadPromptTemplate('ask');
+		const prompt = renderPromptTemplate(template, {
+			today: this.formatDate(new Date()),
+			history: turns || '(This is the first question.)',
+			entries: entries || '(No matching entries were found.)',
+			question
+		});
+
+		for (const source of sources) {
+			await log.addFile(source.file.path, source.text);
+		}
+		progress(`Asking ${this.getBackendLabel()} with ${sources.length} entries...`);
+		const answer = await this.runModel(prompt, {
+			signal,
+			log,
+			template: 'ask',
+			onOutput: output => {
+				progress(`Receiving answer...\n(${output.length} characters so far)`);
+				if (onOutput) {
+					onOutput(output);
+				}
+			}
+		});
+
+		const sourcePath = normalizePath(`${this.settings.metaFolder}/conversation.md`);
+		const byDate = new Map(sources.map(source => [source.date, source.file]));
+		const check = checkCitations(answer, target => {
+			const file = byDate.get(target) || this.app.metadataCache.getFirstLinkpathDest(target, sourcePath);
+			if (!file || !sources.some(source => source.file === file)) {
+				return { error: 'not one of the entries sent with the question' };
+			}
+			return { link: this.app.metadataCache.fileToLinktext(file, sourcePath, true) };
+		});
+
+		return { question, answer: check.body, sources: sources.map(source => source.file.path) };
+	}
+
+	// Write a chat session to the meta folder
+	async saveConversation(history: ChatTurn[]): Promise<TFile> {
+		const metaFolder = this.settings.metaFolder;
+		if (!this.app.vault.getAbstractFileByPath(metaFolder)) {
+			await this.app.vault.createFolder(metaFolder);
+		}
+
+		const now = moment();
+		let path = normalizePath(`${metaFolder}/conversation-${now.format('YYYY-MM-DD-HHmm')}.md`);
+		for (let i = 2; this.app.vault.getAbstractFileByPath(path); i++) {
+			path = normalizePath(`${metaFolder}/conversation-${now.format('YYYY-MM-DD-HHmm')}-${i}.md`);
+		}
+
+		const sourceLinks = (paths: string[]) => paths
+			.map(sourcePath => this.app.vault.getAbstractFileByPath(sourcePath))
+			.filter((file): file is TFile => file instanceof TFile)
+			.map(file => `[[${this.app.metadataCache.fileToLinktext(file, path, true)}]]`);
+		const allSources = Array.from(new Set(([] as string[]).concat(...history.map(turn => turn.sources))));
+
+		const frontmatter = stringifyYaml({
+			date: now.format('YYYY-MM-DD'),
+			type: 'journal-conversation',
+			tags: ['meta', 'conversation', 'journal'],
+			sources: sourceLinks(allSources)
+		});
+		const turns = history.map(turn => {
+			const sources = sourceLinks(turn.sources);
+			return `## ${turn.question}\n\n${turn.answer}${sources.length > 0 ? `\n\n*Entries consulted: ${sources.join(', ')}*` : ''}`;
+		});
+
+		return await this.app.vault.create(path, `---\n${frontmatter}---\n\n${turns.join('\n\n')}\n\n---\n*Generated by Journal Analyzer Plugin*\n`);
+	}
+
+	refreshTimelineViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(TIMELINE_VIEW_TYPE)) {
+			if (leaf.view instanceof TimelineView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+
+	/**
+	 * Generate any scheduled review whose meta note doesn't exist yet, oldest
+	 * first. Periods without journal entries are skipped.
+	 */
+	async checkScheduledAnalyses() {
+		if (this.scheduleRunning || (!this.settings.weeklyReviewEnabled && !this.settings.monthlyReviewEnabled)) {
+			return;
+		}
+
+		this.scheduleRunning = true;
+		try {
+			const periods = getDuePeriods(this.formatDate(new Date()), this.settings);
+			for (const period of periods) {
+				const key = `${period.startDate}|${period.endDate}`;
+				if (this.failedScheduledPeriods.has(key) || this.app.vault.getAbstractFileByPath(this.getMetaNotePath(period.startDate, period.endDate))) {
+					continue;
+				}
+
+				const journalFiles = await this.getJournalFilesInRange(period.startDate, period.endDate);
+				if (journalFiles.length === 0) {
+					continue;
+				}
+
+				if (!await this.runScheduledAnalysis(period)) {
+					this.failedScheduledPeriods.add(key);
+				}
+			}
+		} catch (error) {
+			console.error('Error checking scheduled analyses:', error);
+		} finally {
+			this.scheduleRunning = false;
+		}
+	}
+
+	// Queue a scheduled review as a rollup and wait for it; false if it failed or was cancelled
+	async runScheduledAnalysis(period: RollupRange): Promise<boolean> {
+		const title = `${period.period === 'week' ? 'Weekly' : 'Monthly'} review: ${period.label}`;
+		const inputs: RunInputs = { command: 'rollup', period: period.period, startDate: period.startDate, endDate: period.endDate };
+		const job = this.jobQueue.enqueue(`analysis:${period.startDate}:${period.endDate}`, title, this.withRunLog(title, inputs, async ({ signal, progress, log }) => {
+			const metaNote = await this.generateRollup(period, { signal, onProgress: progress, log });
+			if (!metaNote) {
+				return { message: `No journal entries found for ${period.label}` };
+			}
+			return { message: 'Ready', open: () => this.openFile(metaNote.path), outputPath: metaNote.path };
+		}));
+
+		// The same range was already queued by hand
+		if (!job) {
+			return true;
+		}
+		await job.finished;
+		return job.status === 'done';
+	}
+
+	async getJournalFilesInRange(startDate: string, endDate: string): Promise<TFile[]> {
+		const layout = this.getJournalLayout();
+		if (layout.folder && !this.app.vault.getAbstractFileByPath(layout.folder)) {
+			throw new Error(`Journal folder not found: ${layout.folder}`);
+		}
+
+		const start = parseDateInput(startDate, 'start');
+		const end = parseDateInput(endDate, 'end');
+
+		const journalFiles: { file: TFile; date: string }[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.isInJournalFolder(file, layout)) {
+				continue;
+			}
+
+			const date = this.getJournalDate(file, layout);
+			if (date && date >= start && date <= end) {
+				journalFiles.push({ file, date });
+			}
+		}
+
+		return journalFiles
+			.sort((a, b) => a.date.localeCompare(b.date) || a.file.path.localeCompare(b.file.path))
+			.map(entry => entry.file);
+	}
+
+	// Read entries for a prompt, skipping private entries and stripping private content
+	async readJournalFiles(files: TFile[]): Promise<JournalEntry[]> {
+		const layout = this.getJournalLayout();
+		const entries: JournalEntry[] = [];
+
+		for (const file of files) {
+			if (this.isExcludedFromAnalysis(file)) {
+				continue;
+			}
+			const content = await this.app.vault.read(file);
+			entries.push({
+				file,
+				date: this.getJournalDate(file, layout) || file.basename,
+				content: this.stripPrivateContent(content)
+			});
+		}
+
+		return entries;
+	}
+
+	// Notes with analyze: false in frontmatter or tagged #private are never sent to the model
+	isExcludedFromAnalysis(file: TFile): boolean {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return false;
+		}
+		const analyze = cache.frontmatter?.[ANALYZE_FIELD];
+		if (analyze === false || String(analyze).toLowerCase() === 'false') {
+			return true;
+		}
+		return (getAllTags(cache) || []).some(tag => tag.toLowerCase() === PRIVATE_TAG || tag.toLowerCase().startsWith(`${PRIVATE_TAG}/`));
+	}
+
+	stripPrivateContent(content: string): string {
+		return stripPrivateContent(content, this.settings.privateHeadings.split(',').filter(heading => heading.trim().length > 0));
+	}
+
+	/**
+	 * The analysis prompts for a range exactly as they would be sent, after
+	 * exclusions and redaction. Large ranges show every batch prompt; the
+	 * synthesis prompt depends on the batch results and isn't included.
+	 */
+	async buildAnalysisPreview(startDate: string, endDate: string): Promise<{ summary: string; prompt: string }> {
+		const journalFiles = await this.getJournalFilesInRange(startDate, endDate);
+		const entries = await this.readJournalFiles(journalFiles);
+		const template = await this.loadPromptTemplate('analysis', this.settings.analysisTemplate);
+		const redactor = new Redactor(this.settings.redactionList);
+		const openQuestions = this.getOpenQuestions(endDate).slice(-MAX_FOLLOW_UP_QUESTIONS);
+
+		const excluded = journalFiles.length - entries.length;
+		let summary = `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} included`;
+		if (excluded > 0) {
+			summary += `, ${excluded} excluded as private`;
+		}
+		if (!redactor.active) {
+			summary += '. The redaction list is empty.';
+		}
+
+		const followUp = openQuestions.length > 0
+			? `, which also follows up on ${openQuestions.length} open ${openQuestions.length === 1 ? 'question' : 'questions'}`
+			: '';
+		const batches = this.batchJournalEntries(entries);
+		if (batches.length <= 1) {
+			if (followUp) {
+				summary += `. The analysis is followed by a synthesis${followUp}.`;
+			}
+			return { summary, prompt: redactor.redact(this.buildAnalysisPrompt(template, this.formatJournalEntries(entries), startDate, endDate)) };
+		}
+
+		summary += `. Sent in ${batches.length} batches, followed by a synthesis of the batch results${followUp}.`;
+		const prompts = batches.map((batch, i) =>
+			`===== Batch ${i + 1} of ${batches.length} =====\n\n${redactor.redact(this.buildBatchPrompt(template, this.formatJournalEntries(batch.entries), batch, i, batches.length))}`);
+		return { summary, prompt: prompts.join('\n\n') };
+	}
+
+	formatJournalEntries(entries: JournalEntry[]): string {
+		// Entries are headed by date, which is what analyses cite
+		return entries.map(entry => `\n\n## Entry: ${entry.date}${entry.file.basename !== entry.date ? ` (${entry.file.basename})` : ''}\n\n${entry.content}\n`).join('');
+	}
+
+	/**
+	 * Split entries into batches that each fit the prompt token budget. With the
+	 * 'week' strategy, batches never span two calendar weeks (Monday to Sunday).
+	 * Entries too large for a batch on their own are truncated.
+	 */
+	batchJournalEntries(entries: JournalEntry[]): JournalBatch[] {
+		const budget = Math.max(this.settings.maxPromptTokens - PROMPT_OVERHEAD_TOKENS, MIN_BATCH_TOKENS);
+		const batches: JournalBatch[] = [];
+		let current: JournalEntry[] = [];
+		let currentTokens = 0;
+		let currentWeek = '';
+
+		const flush = () => {
+			if (current.length > 0) {
+				batches.push({
+					entries: current,
+					startDate: current[0].date,
+					endDate: current[current.length - 1].date
+				});
+			}
+			current = [];
+			currentTokens = 0;
+		};
+
+		for (const entry of entries) {
+			let sized = entry;
+			let tokens = estimateTokens(this.formatJournalEntries([entry]));
+
+			if (tokens > budget) {
+				console.warn(`Journal entry ${entry.file.path} exceeds the prompt budget and will be truncated`);
+				sized = { ...entry, content: entry.content.substring(0, budget * CHARS_PER_TOKEN) + '\n\n[...truncated]' };
+				tokens = estimateTokens(this.formatJournalEntries([sized]));
+			}
+
+			const week = getWeekStart(entry.date);
+			const weekChanged = this.settings.batchStrategy === 'week' && week !== currentWeek;
+			if (weekChanged || currentTokens + tokens > budget) {
+				flush();
+			}
+
+			current.push(sized);
+			currentTokens += tokens;
+			currentWeek = week;
+		}
+		flush();
+
+		return batches;
+	}
+
+	/**
+	 * Analyze entries batch by batch, caching each batch's result on its own so
+	 * editing an entry only re-analyzes its batch. Several batches, or open
+	 * questions to follow up on, add a synthesis of the batch results. Open
+	 * questions only go into the synthesis, so raising or resolving one leaves
+	 * the cached batches valid.
+	 */
+	async analyzeWithClaudeCode(entries: JournalEntry[], startDate: string, endDate: string, options: AnalysisRunOptions = {}): Promise<JournalAnalysis> {
+		const { signal, log } = options;
+		const onProgress = options.onProgress || (() => {});
+		const label = this.getBackendLabel();
+
+		try {
+			const templateName = options.templateName || this.settings.analysisTemplate;
+			const template = await this.loadPromptTemplate('analysis', templateName);
+			if (log) {
+				for (const entry of entries) {
+					await log.addFile(entry.file.path, entry.content);
+				}
+			}
+			const openQuestions = this.getOpenQuestions(endDate).slice(-MAX_FOLLOW_UP_QUESTIONS);
+			const batches = this.batchJournalEntries(entries);
+			if (batches.length === 0) {
+				batches.push({ entries: [], startDate, endDate });
+			}
+			const batchOutputs: string[] = [];
+			const batchData: StructuredAnalysis[] = [];
+
+			for (let i = 0; i < batches.length; i++) {
+				throwIfCancelled(signal);
+				const batch = batches[i];
+				const status = batches.length === 1
+					? `Analyzing with ${label}`
+					: `Analyzing batch ${i + 1} of ${batches.length} (${batch.startDate} to ${batch.endDate}, ${batch.entries.length} entries)`;
+				onProgress(`${status}...\n(This may take 30-60 seconds)`);
+
+				const content = this.formatJournalEntries(batch.entries);
+				const prompt = batches.length === 1
+					? this.buildAnalysisPrompt(template, content, startDate, endDate)
+					: this.buildBatchPrompt(template, content, batch, i, batches.length);
+				const result = await this.runCachedModel(prompt, {
+					signal,
+					log,
+					template: templateName,
+					onOutput: output => onProgress(`${status}...\n(${output.length} characters so far)`)
+				});
+				if (result.cached) {
+					onProgress(`${status}...\n(unchanged, using cached result)`);
+				}
+				batchOutputs.push(result.output);
+
+				const parsed = parseStructuredAnalysis(result.output);
+				if (parsed) {
+					batchData.push(parsed);
+				}
+			}
+
+			let output = batchOutputs[0];
+			if (batches.length > 1 || openQuestions.length > 0) {
+				throwIfCancelled(signal);
+				const status = openQuestions.length > 0
+					? `Synthesizing and following up on ${openQuestions.length} open ${openQuestions.length === 1 ? 'question' : 'questions'}`
+					: `Synthesizing ${batches.length} batch analyses`;
+				onProgress(`${status} with ${label}...`);
+				const batchResults = batches.map((batch, i) => `## Batch ${i + 1}: ${batch.startDate} to ${batch.endDate}\n\n${batchOutputs[i]}`);
+				const synthesis = await this.runCachedModel(this.buildSynthesisPrompt(template, batchResults.join('\n\n---\n\n'), startDate, endDate, openQuestions), {
+					signal,
+					log,
+					template: templateName,
+					onOutput: output => onProgress(`${status}...\n(${output.length} characters so far)`)
+				});
+				output = synthesis.output;
+			}
+
+			// Per-entry details come from the batches when the synthesis doesn't repeat them
+			const data = parseStructuredAnalysis(output);
+			if (data && data.entries.length === 0) {
+				data.entries = ([] as EntryDetails[]).concat(...batchData.map(batch => batch.entries));
+			}
+
+			if (!data) {
+				console.warn('Analysis was not valid structured JSON, using raw output');
+			}
+
+			// Update tracked questions: follow-ups on earlier ones, and this analysis's new ones
+			const metaPath = this.getMetaNotePath(startDate, endDate);
+			// Only entries written after a question was raised can address it
+			const offered = new Map(openQuestions.map(question => [question.id, question]));
+			const followUps = (data ? data.followUps : [])
+				.filter(followUp => offered.has(followUp.id))
+				.map(followUp => ({ ...followUp, entries: followUp.entries.filter(date => date > (offered.get(followUp.id) as TrackedQuestion).raisedOn) }))
+				.filter(followUp => followUp.entries.length > 0);
+			await this.applyFollowUps(followUps, entries, endDate);
+			if (data) {
+				await this.trackQuestions(data.questions, 'question', endDate, metaPath);
+			}
+
+			let body = this.verifyCitations(data ? renderStructuredAnalysis(data) : output, entries.map(entry => entry.file), metaPath);
+			if (followUps.length > 0) {
+				body += `\n\n${this.renderFollowUps(followUps, entries, metaPath)}`;
+			}
+
+			// Add metadata footer
+			return {
+				body: `${body}
+
+---
+*Generated by Journal Analyzer Plugin*
+*Entries analyzed: ${entries.length}*
+*Generated: ${new Date().toLocaleString()}*`,
+				data
+			};
+
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			console.error(`Error calling ${label}:`, error);
+			throw new Error(`Failed to analyze with ${label}: ${error.message}`);
+		}
+	}
+
+	buildAnalysisPrompt(template: string, content: string, startDate: string, endDate: string, openQuestions: TrackedQuestion[] = []): string {
+		return renderPromptTemplate(template, {
+			startDate,
+			endDate,
+			entries: content,
+			jsonFormat: openQuestions.length > 0 ? ANALYSIS_JSON_INSTRUCTIONS + buildFollowUpInstructions(openQuestions) : ANALYSIS_JSON_INSTRUCTIONS
+		});
+	}
+
+	buildBatchPrompt(template: string, content: string, batch: JournalBatch, index: number, total: number): string {
+		return `This is part ${index + 1} of ${total} of a longer period; the parts will be combined into one analysis afterwards. Keep your notes concise and mention entry dates where they support a point.
+
+${this.buildAnalysisPrompt(template, content, batch.startDate, batch.endDate)}`;
+	}
+
+	buildRollupPrompt(template: string, childAnalyses: string, range: RollupRange, childPeriod: RollupPeriod): string {
+		const instructions = this.buildAnalysisPrompt(template, `(see the ${childPeriod}ly analyses below)`, range.startDate, range.endDate);
+
+		return `The journal entries from ${range.startDate} to ${range.endDate} (${range.label}) were already analyzed ${childPeriod} by ${childPeriod} using the instructions below.
+Combine those analyses into a single analysis of the whole ${range.period} that follows the same instructions. Add up theme counts, note how patterns changed from one ${childPeriod} to the next and what persisted throughout. If the instructions ask for JSON, leave "entries" as an empty array; per-entry details are taken from the ${childPeriod}ly analyses.
+
+Instructions:
+---
+${instructions}
+---
+
+${childPeriod === 'week' ? 'Weekly' : 'Monthly'} Analyses:
+${childAnalyses}`;
+	}
+
+	// Open questions are judged from what the batch analyses say about each entry
+	buildSynthesisPrompt(template: string, batchResults: string, startDate: string, endDate: string, openQuestions: TrackedQuestion[] = []): string {
+		const instructions = this.buildAnalysisPrompt(template, '(see the batch analyses below)', startDate, endDate, openQuestions);
+		const followUp = openQuestions.length > 0
+			? ' Decide which open questions the entries address from what the batch analyses report about them, citing the entry dates they mention.'
+			: '';
+
+		return `The journal entries from ${startDate} to ${endDate} were analyzed in consecutive batches using the instructions below.
+Combine the batch analyses into a single analysis of the whole period that follows the same instructions. Add up theme counts across batches and note how patterns changed over time. If the instructions ask for JSON, leave "entries" as an empty array; per-entry details are taken from the batches.${followUp}
+
+Instructions:
+---
+${instructions}
+---
+
+Batch Analyses:
+${batchResults}`;
+	}
+
+	createBackend(): ModelBackend {
+		const timeoutMs = this.settings.timeoutSeconds * 1000;
+
+		if (this.settings.backend === 'http') {
+			return new HttpBackend(
+				this.settings.httpEndpoint,
+				this.settings.httpApiFormat,
+				this.settings.httpModel,
+				parseHeaderLines(this.settings.httpHeaders),
+				this.settings.httpTemperature,
+				timeoutMs
+			);
+		}
+
+		return new ProcessBackend(
+			this.settings.claudeCodePath,
+			parseCommandArgs(this.settings.claudeCodeArgs),
+			timeoutMs
+		);
+	}
+
+	// Human-readable name of the configured backend for progress and error messages
+	getBackendLabel(): string {
+		return this.settings.backend === 'http' ? this.settings.httpModel || 'HTTP model' : 'Claude Code';
+	}
+
+	// Identifies the backend configuration, so switching models doesn't reuse cached results
+	getBackendIdentity(): string {
+		if (this.settings.backend === 'http') {
+			const { httpEndpoint, httpApiFormat, httpModel, httpTemperature } = this.settings;
+			return `http|${httpEndpoint}|${httpApiFormat}|${httpModel}|${httpTemperature}`;
+		}
+		return `cli|${this.settings.claudeCodePath}|${this.settings.claudeCodeArgs}`;
+	}
+
+	/**
+	 * Like runModel, but reuses an earlier output for the same prompt and backend.
+	 * The prompt embeds the template and every entry's content, so hashing it
+	 * covers all of the inputs.
+	 */
+	async runCachedModel(prompt: string, options: ModelRunOptions = {}): Promise<{ output: string; cached: boolean }> {
+		if (this.settings.cacheTtlDays <= 0) {
+			return { output: await this.runModel(prompt, options), cached: false };
+		}
+
+		const key = await hashContent(`${this.getBackendIdentity()}\n${prompt}`);
+		const hit = this.analysisCache[key];
+		if (hit && Date.now() - hit.createdAt <= this.settings.cacheTtlDays * DAY_MS) {
+			const redactor = new Redactor(this.settings.redactionList);
+			this.recordModelCall(options, redactor.redact(prompt), redactor.redact(hit.output), Date.now(), 'cached');
+			return { output: hit.output, cached: true };
+		}
+
+		const output = await this.runModel(prompt, options);
+		this.analysisCache[key] = { output, createdAt: Date.now() };
+		await this.saveSettings();
+		return { output, cached: false };
+	}
+
+	/**
+	 * Send a prompt to the configured backend and return its trimmed output,
+	 * redacting the prompt and restoring redacted text in the output.
+	 */
+	async runModel(prompt: string, options: ModelRunOptions = {}): Promise<string> {
+		// Names and patterns from the redaction list never leave the plugin
+		const redactor = new Redactor(this.settings.redactionList);
+		const sent = redactor.redact(prompt);
+		const startedAt = Date.now();
+		let output = '';
+
+		try {
+			output = await this.createBackend().run(sent, options);
+
+			if (!output || output.trim().length === 0) {
+				throw new Error(`${this.getBackendLabel()} returned empty response`);
+			}
+		} catch (error) {
+			this.recordModelCall(options, sent, output || '', startedAt, error instanceof CancelledError ? 'cancelled' : 'failed', error.message);
+			throw error;
+		}
+
+		this.recordModelCall(options, sent, output, startedAt, 'ok');
+		return redactor.restore(output.trim());
+	}
+
+	// Add a model call to the run it belongs to, if any
+	recordModelCall(options: ModelRunOptions, prompt: string, output: string, startedAt: number, status: RunCall['status'], error?: string) {
+		const { log } = options;
+		if (!log) {
+			return;
+		}
+
+		const call: RunCall = {
+			template: options.template || 'unknown',
+			startedAt,
+			durationMs: Date.now() - startedAt,
+			status,
+			promptChars: prompt.length,
+			outputChars: output.length
+		};
+		if (error) {
+			call.error = error;
+		}
+		if (log.storeContent) {
+			call.prompt = prompt;
+			call.response = output;
+		}
+		log.recordCall(call);
+	}
+
+	getMetaNotePath(startDate: string, endDate: string): string {
+		return normalizePath(`${this.settings.metaFolder}/analysis-${startDate}-to-${endDate}.md`);
+	}
+
+	async createMetaNote(analysis: JournalAnalysis, startDate: string, endDate: string, extraFrontmatter: Record<string, unknown> = {}): Promise<TFile> {
+		// Ensure meta folder exists
+		const metaFolder = this.settings.metaFolder;
+		if (!this.app.vault.getAbstractFileByPath(metaFolder)) {
+			await this.app.vault.createFolder(metaFolder);
+		}
+
+		// Create filename based on date range
+		const filename = this.getMetaNotePath(startDate, endDate);
+
+		// Create frontmatter
+		const fields = Object.assign(analysis.data ? buildAnalysisFrontmatter(analysis.data) : {}, extraFrontmatter);
+		const frontmatter = `---
+date: ${this.formatDate(new Date())}
+type: journal-analysis
+tags: [meta, analysis, journal]
+start_date: ${startDate}
+end_date: ${endDate}
+${Object.keys(fields).length > 0 ? stringifyYaml(fields) : ''}---
+
+`;
+
+		const fullContent = frontmatter + analysis.body;
+
+		// Create or overwrite the file
+		const existingFile = this.app.vault.getAbstractFileByPath(filename);
+		if (existingFile instanceof TFile) {
+			await this.app.vault.modify(existingFile, fullContent);
+			return existingFile;
+		}
+		return await this.app.vault.create(filename, fullContent);
+	}
+
+	formatDate(date: Date): string {
+		const year = date.getFullYear();
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day}`;
+	}
+
+	async loadSettings() {
+		// Plugin data holds the settings plus stores kept under their own keys
+		const data = Object.assign({}, await this.loadData());
+		this.analysisCache = data.analysisCache || {};
+		this.connectionLedger = data.connectionLedger || {};
+		this.connectionReview = data.connectionReview || null;
+		this.entryScores = data.entryScores || {};
+		this.entityIndex = Object.assign({ entities: {}, processed: {} }, data.entityIndex);
+		this.quickJournalDraft = data.quickJournalDraft || null;
+		this.questionLedger = Object.assign({ nextId: 1, questions: {} }, data.questionLedger);
+		delete data.analysisCache;
+		delete data.connectionLedger;
+		delete data.connectionReview;
+		delete data.entryScores;
+		delete data.entityIndex;
+		delete data.quickJournalDraft;
+		delete data.questionLedger;
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.pruneAnalysisCache();
+	}
+
+	async saveSettings() {
+		await this.saveData(Object.assign({}, this.settings, {
+			analysisCache: this.analysisCache,
+			connectionLedger: this.connectionLedger,
+			connectionReview: this.connectionReview,
+			entryScores: this.entryScores,
+			entityIndex: this.entityIndex,
+			quickJournalDraft: this.quickJournalDraft,
+			questionLedger: this.questionLedger
+		}));
+	}
+
+	// Drop cached analyses older than the configured lifetime
+	pruneAnalysisCache() {
+		const maxAge = this.settings.cacheTtlDays * DAY_MS;
+		const now = Date.now();
+		for (const key of Object.keys(this.analysisCache)) {
+			if (maxAge <= 0 || now - this.analysisCache[key].createdAt > maxAge) {
+				delete this.analysisCache[key];
+			}
+		}
+	}
+
+	async clearAnalysisCache() {
+		const count = Object.keys(this.analysisCache).length;
+		this.analysisCache = {};
+		await this.saveSettings();
+		new Notice(`Cleared ${count} cached ${count === 1 ? 'analysis' : 'analyses'}`);
+	}
+
+	async findMissingConnections() {
+		const activeFile = this.app.workspace.getActiveFile();
+
+		if (!activeFile) {
+			new Notice('No active file. Please open a note to analyze.');
+			return;
+		}
+
+		if (this.isExcludedFromAnalysis(activeFile)) {
+			new Notice(`This note is private (${ANALYZE_FIELD}: false or ${PRIVATE_TAG}) and is not sent to the model`);
+			return;
+		}
+
+		this.findConnectionsFor(activeFile);
+	}
+
+	// Queue a search for connections to a note; the suggestions open from the finished notice
+	findConnectionsFor(file: TFile) {
+		this.startJob(`connections:${file.path}`, `Connections for ${file.basename}`, { command: 'connections', path: file.path }, async ({ signal, progress, log }) => {
+			// Get all markdown files in vault
+			progress('Reading vault files...');
+			const allFiles = this.app.vault.getMarkdownFiles();
+			const { connections, discarded } = await this.analyzeConnections(file, allFiles, progress, signal, log);
+
+			if (connections.length === 0) {
+				const summary = summarizeDiscarded(discarded);
+				return { message: `No connection suggestions found${summary ? ` (${summary})` : ''}` };
+			}
+			return {
+				message: `${connections.length} connection ${connections.length === 1 ? 'suggestion' : 'suggestions'}`,
+				open: () => new ConnectionSuggestionModal(this.app, this, connections, file, discarded).open()
+			};
+		});
+	}
+
+	async analyzeConnections(currentFile: TFile, allFiles: TFile[], onProgress: (message: string) => void, signal?: AbortSignal, log?: RunLog): Promise<ConnectionAnalysis> {
+		if (this.isExcludedFromAnalysis(currentFile)) {
+			throw new Error(`${currentFile.basename} is private (${ANALYZE_FIELD}: false or ${PRIVATE_TAG}) and is not sent to the model`);
+		}
+
+		// Read current file content
+		const currentContent = await this.app.vault.read(currentFile);
+
+		// Pick the notes most relevant to the current note from the search index
+		if (this.searchIndex.size === 0) {
+			onProgress('Building search index...');
+		}
+		const candidatePaths = new Set(allFiles.map(f => f.path));
+		const candidates = await this.searchIndex.search(`${currentFile.basename}\n${currentContent}`, {
+			limit: this.settings.connectionCandidateCount,
+			passageLength: this.settings.connectionPassageLength,
+			passagesPerNote: PASSAGES_PER_CANDIDATE,
+			filter: file => file.path !== currentFile.path && candidatePaths.has(file.path) && !this.isExcludedFromAnalysis(file),
+			// Private blocks and sections can span passages, so strip them from the whole note first
+			transform: content => this.stripPrivateContent(content)
+		});
+		throwIfCancelled(signal);
+
+		onProgress(`Analyzing connections with ${candidates.length} related notes...`);
+
+		// Build context from the best-matching passages of each candidate
+		let context = `# Current Note: ${currentFile.basename}\n\n${this.stripPrivateContent(currentContent)}\n\n---\n\n# Other Notes:\n\n`;
+
+		for (const candidate of candidates) {
+			const passages = candidate.passages.map(passage => passage.trim()).filter(passage => passage.length > 0);
+			context += `## ${candidate.file.path}\n${passages.join('\n\n...\n\n')}\n\n`;
+			if (log) {
+				await log.addFile(candidate.file.path, passages.join('\n\n'));
+			}
+		}
+		if (log) {
+			await log.addFile(currentFile.path, this.stripPrivateContent(currentContent));
+		}
+
+		onProgress(`Analyzing with ${this.getBackendLabel()}...\n(This may take 30-60 seconds)`);
+
+		const template = await this.loadPromptTemplate('connections');
+		const prompt = renderPromptTemplate(template, {
+			currentNote: currentFile.basename,
+			currentPath: currentFile.path,
+			minConfidence: String(this.settings.connectionMinConfidence),
+			connectionTypes: this.settings.connectionTypes.join(', '),
+			rejected: this.describeRejectedConnections(currentFile.path),
+			context
+		});
+
+		try {
+			const stdout = await this.runModel(prompt, {
+				signal,
+				log,
+				template: 'connections',
+				onOutput: output => onProgress(`Receiving suggestions from ${this.getBackendLabel()}...\n(${output.length} characters so far)`)
+			});
+
+			// Parse JSON response, asking the model to repair it once if that fails
+			let suggestions: unknown[];
+			try {
+				suggestions = extractJsonArray(stdout);
+			} catch (parseError) {
+				console.warn('Could not parse connection suggestions, retrying:', parseError.message, stdout);
+				onProgress(`Response was not valid JSON, asking ${this.getBackendLabel()} to repair it...`);
+
+				const repaired = await this.runModel(buildJsonRepairPrompt(stdout, parseError.message), { signal, log, template: 'json-repair' });
+				try {
+					suggestions = extractJsonArray(repaired);
+				} catch (retryError) {
+					throw new Error(`Response was not a valid JSON array of connections, even after a retry (${retryError.message})`);
+				}
+			}
+
+			return this.validateConnections(suggestions, currentFile, currentContent);
+
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			console.error('Error analyzing connections:', error);
+			throw new Error(`Failed to analyze connections: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Check every field of the model's suggestions, resolve each target to a note
+	 * in the vault, and anchor the source text in the current note. Suggestions
+	 * that fail are dropped and counted by reason.
+	 */
+	validateConnections(suggestions: unknown[], currentFile: TFile, currentContent: string): ConnectionAnalysis {
+		const connections: Connection[] = [];
+		const discarded: Record<string, number> = {};
+		const discard = (reason: string) => {
+			discarded[reason] = (discarded[reason] || 0) + 1;
+		};
+
+		for (const suggestion of suggestions) {
+			const raw = suggestion as Record<string, unknown>;
+			if (!raw || typeof raw !== 'object') {
+				discard('not an object');
+				continue;
+			}
+
+			const sourceText = asString(raw.sourceText);
+			const targetFile = asString(raw.targetFile);
+			const confidence = typeof raw.confidence === 'string' ? parseFloat(raw.confidence) : raw.confidence;
+			const connectionType = asString(raw.connectionType).toLowerCase();
+
+			if (!sourceText || !targetFile) {
+				discard('missing source text or target');
+				continue;
+			}
+			if (typeof confidence !== 'number' || isNaN(confidence) || confidence < 0 || confidence > 100) {
+				discard('invalid confidence');
+				continue;
+			}
+			if (!CONNECTION_TYPES.includes(connectionType)) {
+				discard('unknown connection type');
+				continue;
+			}
+			if (confidence < this.settings.connectionMinConfidence) {
+				discard('below confidence threshold');
+				continue;
+			}
+
+			const target = this.resolveConnectionTarget(targetFile, currentFile.path);
+			if (!target) {
+				discard('target note not found');
+				continue;
+			}
+			if (target.path === currentFile.path) {
+				discard('links to the note itself');
+				continue;
+			}
+
+			const anchored = findSourceText(currentContent, sourceText);
+			if (!anchored) {
+				discard('source text not in note');
+				continue;
+			}
+
+			const decision = this.getLedgerDecision(currentFile.path, target.path, anchored.text);
+			if (decision) {
+				discard(decision.decision === 'rejected' ? 'previously rejected' : 'previously accepted');
+				continue;
+			}
+
+			connections.push({
+				sourceFile: currentFile.path,
+				targetFile: target.path,
+				sourceText: anchored.text,
+				sourceOffset: anchored.offset,
+				targetText: asString(raw.targetText),
+				reason: asString(raw.reason),
+				confidence,
+				connectionType
+			});
+		}
+
+		return { connections, discarded };
+	}
+
+	/**
+	 * Find the note a suggestion points to by path, link text (basename), or
+	 * a frontmatter alias.
+	 */
+	resolveConnectionTarget(target: string, sourcePath: string): TFile | null {
+		const cleaned = target.replace(/^\[\[|\]\]$/g, '').split('|')[0].trim();
+
+		for (const path of [cleaned, `${cleaned}.md`]) {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+			if (file instanceof TFile) {
+				return file;
+			}
+		}
+
+		const linked = this.app.metadataCache.getFirstLinkpathDest(cleaned.replace(/\.md$/, ''), sourcePath);
+		if (linked) {
+			return linked;
+		}
+
+		const wanted = cleaned.replace(/\.md$/, '').split('/').pop()!.toLowerCase();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const aliases = parseFrontMatterAliases(this.app.metadataCache.getFileCache(file)?.frontmatter) || [];
+			if (file.basename.toLowerCase() === wanted || aliases.some(alias => alias.toLowerCase() === wanted)) {
+				return file;
+			}
+		}
+
+		return null;
+	}
+
+	// Notes a vault-wide connection pass would cover, excluding the plugin's own notes
+	getConnectionReviewFiles(scope: ConnectionReviewScope): TFile[] {
+		const folder = normalizeFolder(scope.folder);
+		const tag = scope.tag.trim().replace(/^#?/, '#').toLowerCase();
+		const excluded = [this.settings.metaFolder, this.settings.promptTemplateFolder]
+			.map(path => `${normalizeFolder(path)}/`)
+			.filter(path => path !== '/');
+
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => !folder || file.path.startsWith(`${folder}/`))
+			.filter(file => !excluded.some(path => file.path.startsWith(path)))
+			.filter(file => !this.isExcludedFromAnalysis(file))
+			.filter(file => {
+				if (tag === '#') {
+					return true;
+				}
+				const cache = this.app.metadataCache.getFileCache(file);
+				const tags = cache ? getAllTags(cache) || [] : [];
+				return tags.some(fileTag => fileTag.toLowerCase() === tag || fileTag.toLowerCase().startsWith(`${tag}/`));
+			})
+			.filter(file => !scope.onlyUnlinked || Object.keys(this.app.metadataCache.resolvedLinks[file.path] || {}).length === 0)
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	async startConnectionReview(scope: ConnectionReviewScope) {
+		const files = this.getConnectionReviewFiles(scope);
+		if (files.length === 0) {
+			new Notice('No notes match the selection');
+			return;
+		}
+
+		const startedAt = Date.now();
+		this.connectionReview = {
+			startedAt,
+			scope,
+			total: files.length,
+			pending: files.map(file => file.path),
+			failed: [],
+			suggestions: [],
+			reportPath: normalizePath(`${this.settings.metaFolder}/connection-review-${moment(startedAt).format('YYYY-MM-DD-HHmm')}.md`)
+		};
+		await this.saveSettings();
+		await this.runConnectionReview();
+	}
+
+	/**
+	 * Analyze the pending notes of the current connection review one by one,
+	 * updating the review note as suggestions come in. Cancelling pauses the
+	 * run; running it again continues with the next note.
+	 */
+	async runConnectionReview() {
+		const review = this.connectionReview;
+		if (!review) {
+			return;
+		}
+
+		this.startJob('connection-review', 'Connection review', { command: 'connection-review' }, async ({ signal, progress, log }) => {
+			const allFiles = this.app.vault.getMarkdownFiles();
+			let nextId = review.suggestions.length;
+
+			try {
+				while (review.pending.length > 0) {
+					throwIfCancelled(signal);
+					const path = review.pending[0];
+					const file = this.app.vault.getAbstractFileByPath(path);
+					const position = review.total - review.pending.length + 1;
+
+					if (file instanceof TFile) {
+						const status = `Note ${position} of ${review.total}: ${file.basename}`;
+						progress(status);
+						try {
+							const { connections } = await this.analyzeConnections(file, allFiles, message => progress(`${status}\n${message}`), signal, log);
+							for (const connection of connections) {
+								review.suggestions.push({ ...connection, id: (nextId++).toString(36), applied: false });
+							}
+						} catch (error) {
+							if (error instanceof CancelledError) {
+								throw error;
+							}
+							console.error(`Error finding connections for ${path}:`, error);
+							review.failed.push({ path, error: error.message });
+						}
+					}
+
+					review.pending.shift();
+					await this.saveSettings();
+					await this.writeConnectionReviewNote(review);
+				}
+			} catch (error) {
+				if (error instanceof CancelledError) {
+					await this.writeConnectionReviewNote(review);
+					throw new CancelledError(`Paused with ${review.pending.length} notes left. Run "Find Connections Across Notes" to resume.`);
+				}
+				throw error;
+			}
+
+			return { message: `${review.suggestions.length} suggestions for ${review.total} notes`, open: () => this.openFile(review.reportPath), outputPath: review.reportPath };
+		});
+	}
+
+	async openFile(path: string) {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			await this.app.workspace.getLeaf().openFile(file);
+		}
+	}
+
+	/**
+	 * Write the review note: one checkbox per suggestion, grouped by source note.
+	 * Boxes the user has already checked stay checked when the note is rewritten.
+	 */
+	async writeConnectionReviewNote(review: ConnectionReviewState) {
+		const existing = this.app.vault.getAbstractFileByPath(review.reportPath);
+		const checked = new Set<string>();
+		if (existing instanceof TFile) {
+			for (const item of parseReviewItems(await this.app.vault.read(existing))) {
+				if (item.checked) {
+					checked.add(item.id);
+				}
+			}
+		}
+
+		const bySource: Record<string, ReviewSuggestion[]> = {};
+		for (const suggestion of review.suggestions) {
+			(bySource[suggestion.sourceFile] = bySource[suggestion.sourceFile] || []).push(suggestion);
+		}
+
+		const processed = review.total - review.pending.length;
+		let content = `---
+date: ${this.formatDate(new Date(review.startedAt))}
+type: connection-review
+tags: [meta, connections]
+notes_processed: ${processed}
+notes_total: ${review.total}
+---
+
+# Connection Review
+
+Check the links you want, then run **Apply Reviewed Links** from the Command Palette.
+
+*${processed} of ${review.total} notes processed, ${review.suggestions.length} suggestions*
+`;
+
+		for (const source of Object.keys(bySource).sort()) {
+			content += `\n## [[${source.replace(/\.md$/, '')}]]\n\n`;
+			for (const suggestion of bySource[source]) {
+				const box = suggestion.applied || checked.has(suggestion.id) ? 'x' : ' ';
+				const status = suggestion.applied ? ' *(added)*' : '';
+				const reason = suggestion.reason ? ` - ${suggestion.reason}` : '';
+				content += `- [${box}] "${suggestion.sourceText}" → [[${suggestion.targetFile.replace(/\.md$/, '')}]]${reason} (${suggestion.connectionType}, ${suggestion.confidence}%)${status} %%${REVIEW_ITEM_MARKER}${suggestion.id}%%\n`;
+			}
+		}
+
+		if (review.failed.length > 0) {
+			content += `\n## Failed\n\n${review.failed.map(failure => `- [[${failure.path.replace(/\.md$/, '')}]]: ${failure.error}`).join('\n')}\n`;
+		}
+
+		const metaFolder = normalizeFolder(this.settings.metaFolder);
+		if (metaFolder && !this.app.vault.getAbstractFileByPath(metaFolder)) {
+			await this.app.vault.createFolder(metaFolder);
+		}
+
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(review.reportPath, content);
+		}
+	}
+
+	// Add the links checked in the review note that haven't been added yet
+	async applyReviewedLinks() {
+		const review = this.connectionReview;
+		if (!review) {
+			new Notice('No connection review found. Run "Find Connections Across Notes" first.');
+			return;
+		}
+
+		const reportFile = this.app.vault.getAbstractFileByPath(review.reportPath);
+		if (!(reportFile instanceof TFile)) {
+			new Notice(`Review note not found: ${review.reportPath}`);
+			return;
+		}
+
+		const checked = new Set(parseReviewItems(await this.app.vault.read(reportFile))
+			.filter(item => item.checked)
+			.map(item => item.id));
+		const toApply = review.suggestions.filter(suggestion => checked.has(suggestion.id) && !suggestion.applied);
+
+		if (toApply.length === 0) {
+			new Notice('No checked links to apply');
+			return;
+		}
+
+		const bySource: Record<string, ReviewSuggestion[]> = {};
+		for (const suggestion of toApply) {
+			(bySource[suggestion.sourceFile] = bySource[suggestion.sourceFile] || []).push(suggestion);
+		}
+
+		let added = 0;
+		let failed = 0;
+		const notes: LinkedNote[] = [];
+		for (const source of Object.keys(bySource)) {
+			const file = this.app.vault.getAbstractFileByPath(source);
+			if (!(file instanceof TFile)) {
+				failed += bySource[source].length;
+				continue;
+			}
+
+			try {
+				const { linked, note } = await this.linkNote(file, bySource[source]);
+				if (note) {
+					notes.push(note);
+				}
+				for (const suggestion of linked as ReviewSuggestion[]) {
+					suggestion.applied = true;
+				}
+				await this.acceptConnections(linked);
+				added += linked.length;
+				failed += bySource[source].length - linked.length;
+			} catch (error) {
+				console.error(`Error adding links to ${source}:`, error);
+				failed += bySource[source].length;
+			}
+		}
+		if (notes.length > 0) {
+			this.lastLinkBatch = { notes };
+		}
+
+		await this.saveSettings();
+		await this.writeConnectionReviewNote(review);
+		new Notice(`Added ${added} links. ${failed > 0 ? `${failed} failed.` : ''}`);
+	}
+
+	getLedgerDecision(sourcePath: string, targetPath: string, sourceText: string): LedgerDecision | null {
+		return this.connectionLedger[ledgerKey(sourcePath, targetPath, sourceText)] || null;
+	}
+
+	async recordConnectionDecision(connection: Connection, decision: LedgerDecision['decision']) {
+		this.connectionLedger[ledgerKey(connection.sourceFile, connection.targetFile, connection.sourceText)] = {
+			source: connection.sourceFile,
+			target: connection.targetFile,
+			text: normalizeLedgerText(connection.sourceText),
+			decision,
+			decidedAt: Date.now()
+		};
+		await this.saveSettings();
+	}
+
+	/**
+	 * Record links that were added as accepted and, when enabled, write the
+	 * reciprocal link into each target note.
+	 */
+	async acceptConnections(connections: Connection[]) {
+		for (const connection of connections) {
+			await this.recordConnectionDecision(connection, 'accepted');
+
+			if (this.settings.reciprocalLinks === 'off') {
+				continue;
+			}
+			try {
+				await this.addReciprocalLink(connection);
+			} catch (error) {
+				console.error(`Error adding reciprocal link to ${connection.targetFile}:`, error);
+				new Notice(`Could not add reciprocal link to ${connection.targetFile}: ${error.message}`);
+			}
+		}
+	}
+
+	/**
+	 * Record in the target note that the source links to it, with the reason and
+	 * connection type. An existing entry for the same source is replaced, so
+	 * re-running only updates it.
+	 */
+	async addReciprocalLink(connection: Connection) {
+		const target = this.app.vault.getAbstractFileByPath(connection.targetFile);
+		const source = this.app.vault.getAbstractFileByPath(connection.sourceFile);
+		if (!(target instanceof TFile) || !(source instanceof TFile)) {
+			return;
+		}
+
+		const link = `[[${this.app.metadataCache.fileToLinktext(source, target.path, true)}]]`;
+
+		if (this.settings.reciprocalLinks === 'frontmatter') {
+			await this.app.fileManager.processFrontMatter(target, (frontmatter) => {
+				const related: unknown[] = Array.isArray(frontmatter.related) ? frontmatter.related : [];
+				const entry = { note: link, type: connection.connectionType, reason: connection.reason };
+				const index = related.findIndex(item => (typeof item === 'string' ? item : item && typeof item === 'object' ? (item as Record<string, unknown>).note : undefined) === link);
+				if (index === -1) {
+					related.push(entry);
+				} else {
+					related[index] = entry;
+				}
+				frontmatter.related = related;
+			});
+			return;
+		}
+
+		const reason = connection.reason ? ` - ${connection.reason}` : '';
+		const line = `- ${link} (${connection.connectionType})${reason}`;
+		await this.app.vault.process(target, content => upsertRelatedSectionLine(content, link, line));
+	}
+
+	async forgetConnectionDecision(key: string) {
+		delete this.connectionLedger[key];
+		await this.saveSettings();
+	}
+
+	async clearConnectionLedger() {
+		this.connectionLedger = {};
+		await this.saveSettings();
+	}
+
+	// Bullet list of rejected suggestions for a note, for the connection prompt
+	describeRejectedConnections(sourcePath: string): string {
+		const rejected = Object.values(this.connectionLedger)
+			.filter(entry => entry.source === sourcePath && entry.decision === 'rejected');
+
+		if (rejected.length === 0) {
+			return '(none)';
+		}
+		return rejected.map(entry => `- "${entry.text}" → ${entry.target}`).join('\n');
+	}
+
+	// Keep ledger entries pointing at notes after they are renamed or moved
+	async renameInLedger(oldPath: string, newPath: string) {
+		let changed = false;
+		for (const key of Object.keys(this.connectionLedger)) {
+			const entry = this.connectionLedger[key];
+			if (entry.source !== oldPath && entry.target !== oldPath) {
+				continue;
+			}
+			delete this.connectionLedger[key];
+			entry.source = entry.source === oldPath ? newPath : entry.source;
+			entry.target = entry.target === oldPath ? newPath : entry.target;
+			this.connectionLedger[ledgerKey(entry.source, entry.target, entry.text)] = entry;
+			changed = true;
+		}
+
+		if (changed) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Add links for the given connections to a note as one change. Source text
+	 * inside frontmatter, code or existing links is never touched. When the note
+	 * is open, the change goes through the editor so a single undo reverts it.
+	 * Returns the connections that were linked.
+	 */
+	async insertWikiLinks(file: TFile, connections: Connection[]): Promise<Connection[]> {
+		const { linked, note } = await this.linkNote(file, connections);
+		if (note) {
+			this.lastLinkBatch = { notes: [note] };
+		}
+		return linked;
+	}
+
+	// Insert links into one note, returning what changed for reverting
+	async linkNote(file: TFile, connections: Connection[]): Promise<{ linked: Connection[]; note: LinkedNote | null }> {
+		const editor = this.getOpenEditor(file);
+		const content = editor ? editor.getValue() : await this.app.vault.read(file);
+		const ranges = findProtectedRanges(content);
+
+		const edits: LinkEdit[] = [];
+		const linked: Connection[] = [];
+
+		if (this.settings.linkInsertMode === 'related') {
+			const related = this.buildRelatedLineEdit(content, ranges, file, connections);
+			if (related.edit) {
+				edits.push(related.edit);
+			}
+			linked.push(...related.linked);
+		} else {
+			for (const connection of connections) {
+				const target = this.app.vault.getAbstractFileByPath(connection.targetFile);
+				if (!(target instanceof TFile)) {
+					continue;
+				}
+
+				const offset = locateText(content, connection.sourceText, ranges, connection.sourceOffset);
+				if (offset === -1) {
+					continue;
+				}
+
+				const edit = {
+					from: offset,
+					to: offset + connection.sourceText.length,
+					text: `[[${this.app.metadataCache.fileToLinktext(target, file.path, true)}|${connection.sourceText}]]`
+				};
+				if (edits.some(other => edit.from < other.to && edit.to > other.from)) {
+					continue;
+				}
+
+				edits.push(edit);
+				linked.push(connection);
+			}
+		}
+
+		if (edits.length === 0) {
+			return { linked, note: null };
+		}
+
+		const { updated, insertions } = applyLinkEdits(content, edits);
+
+		if (editor) {
+			editor.transaction({
+				changes: edits.map(edit => ({
+					from: editor.offsetToPos(edit.from),
+					to: editor.offsetToPos(edit.to),
+					text: edit.text
+				}))
+			});
+		} else {
+			await this.app.vault.modify(file, updated);
+		}
+
+		return { linked, note: { path: file.path, before: content, after: updated, insertions } };
+	}
+
+	/**
+	 * Add links to the note's "Related:" line, creating the line at the end if
+	 * needed. Lines in frontmatter or code are never used. Targets already on
+	 * the line count as linked, with no edit.
+	 */
+	buildRelatedLineEdit(content: string, ranges: [number, number][], file: TFile, connections: Connection[]): { edit: LinkEdit | null; linked: Connection[] } {
+		const lineMatch = findRelatedLine(content, ranges);
+		const existingLine = lineMatch ? lineMatch.text : '';
+
+		const links: string[] = [];
+		const linked: Connection[] = [];
+		for (const connection of connections) {
+			const target = this.app.vault.getAbstractFileByPath(connection.targetFile);
+			if (!(target instanceof TFile)) {
+				continue;
+			}
+			const link = `[[${this.app.metadataCache.fileToLinktext(target, file.path, true)}]]`;
+			if (!existingLine.includes(link) && !links.includes(link)) {
+				links.push(link);
+			}
+			linked.push(connection);
+		}
+
+		if (links.length === 0) {
+			return { edit: null, linked };
+		}
+
+		if (lineMatch) {
+			const separator = existingLine.trim() === 'Related:' ? ' ' : ', ';
+			const end = lineMatch.index + existingLine.length;
+			return { edit: { from: end, to: end, text: separator + links.join(', ') }, linked };
+		}
+
+		const spacing = content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+		return { edit: { from: content.length, to: content.length, text: `${spacing}Related: ${links.join(', ')}\n` }, linked };
+	}
+
+	getOpenEditor(file: TFile): Editor | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			const view = leaf.view;
+			if (view instanceof MarkdownView && view.file && view.file.path === file.path) {
+				return view.editor;
+			}
+		}
+		return null;
+	}
+
+	// Undo the last batch of inserted links in every note it touched
+	async revertLastLinkBatch() {
+		const batch = this.lastLinkBatch;
+		if (!batch) {
+			new Notice('No link batch to revert');
+			return;
+		}
+
+		let count = 0;
+		const reverted: string[] = [];
+		for (const note of batch.notes) {
+			const noteCount = await this.revertLinkedNote(note);
+			if (noteCount > 0) {
+				count += noteCount;
+				reverted.push(note.path);
+			}
+		}
+
+		if (count === 0) {
+			new Notice(`The links from the last batch are no longer in ${batch.notes.length === 1 ? 'the note' : 'those notes'}`);
+			return;
+		}
+
+		this.lastLinkBatch = null;
+		new Notice(`Reverted ${count} ${count === 1 ? 'link' : 'links'} in ${reverted.length === 1 ? reverted[0] : `${reverted.length} notes`}`);
+	}
+
+	/**
+	 * Undo one note's part of a link batch. If the note hasn't changed since,
+	 * its previous content is restored; otherwise each inserted link that is
+	 * still where it was inserted is turned back into its original text.
+	 * Returns the number of links reverted.
+	 */
+	async revertLinkedNote(note: LinkedNote): Promise<number> {
+		const file = this.app.vault.getAbstractFileByPath(note.path);
+		if (!(file instanceof TFile)) {
+			console.warn(`Note not found while reverting links: ${note.path}`);
+			return 0;
+		}
+
+		const editor = this.getOpenEditor(file);
+		const content = editor ? editor.getValue() : await this.app.vault.read(file);
+
+		let reverted = note.before;
+		let count = note.insertions.length;
+		if (content !== note.after) {
+			({ content: reverted, count } = revertLinkInsertions(note.after, content, note.insertions));
+		}
+		if (count === 0) {
+			return 0;
+		}
+
+		if (editor) {
+			editor.transaction({
+				changes: [{ from: editor.offsetToPos(0), to: editor.offsetToPos(content.length), text: reverted }]
+			});
+		} else {
+			await this.app.vault.modify(file, reverted);
+		}
+		return count;
+	}
+
+	async saveJournalEntry(entry: string): Promise<TFile> {
+		const layout = this.getJournalLayout();
+		const now = moment();
+		const journalPath = normalizePath(`${layout.folder}/${now.format(layout.pathFormat)}.md`);
+
+		// Ensure the entry's folder (including any dated subfolders) exists
+		const parentFolder = journalPath.substring(0, journalPath.lastIndexOf('/'));
+		if (parentFolder && !this.app.vault.getAbstractFileByPath(parentFolder)) {
+			await this.app.vault.createFolder(parentFolder);
+		}
+
+		// Get or create today's journal file
+		const existingFile = this.app.vault.getAbstractFileByPath(journalPath);
+
+		if (existingFile instanceof TFile) {
+			// File exists, append entry
+			const existingContent = await this.app.vault.read(existingFile);
+			const timestamp = new Date().toLocaleTimeString('en-US', {
+				hour: '2-digit',
+				minute: '2-digit',
+				hour12: true
+			});
+			const newContent = `${existingContent}\n\n## ${timestamp}\n\n${entry}`;
+			await this.app.vault.modify(existingFile, newContent);
+			return existingFile;
+		}
+
+		const title = journalPath.substring(journalPath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+		const template = await this.readJournalTemplate(layout.template, title, now.format(layout.pathFormat));
+
+		if (template !== null) {
+			const newFile = await this.app.vault.create(journalPath, `${template.trimEnd()}\n\n${entry}\n`);
+			return newFile;
+		}
+
+		// Create new file with frontmatter
+		const today = now.format('YYYY-MM-DD');
+		const frontmatter = `---
+${this.settings.frontmatterDateField}: ${today}
+type: journal
+tags: [journal]
+---
+
+# ${title}
+
+${entry}
+`;
+		const newFile = await this.app.vault.create(journalPath, frontmatter);
+		return newFile;
+	}
+
+	/**
+	 * Read a new-entry template and fill in the same variables the core Daily
+	 * Notes plugin supports. Returns null when no template is configured or found.
+	 */
+	async readJournalTemplate(templatePath: string, title: string, formattedDate: string): Promise<string | null> {
+		if (!templatePath) {
+			return null;
+		}
+
+		const path = normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`);
+		const templateFile = this.app.vault.getAbstractFileByPath(path);
+		if (!(templateFile instanceof TFile)) {
+			console.warn(`Journal template not found: ${path}`);
+			return null;
+		}
+
+		const content = await this.app.vault.read(templateFile);
+		const now = moment();
+		return content
+			.replace(/{{\s*date\s*:\s*([^}]+?)\s*}}/gi, (_match, format: string) => now.format(format))
+			.replace(/{{\s*time\s*:\s*([^}]+?)\s*}}/gi, (_match, format: string) => now.format(format))
+			.replace(/{{\s*date\s*}}/gi, formattedDate)
+			.replace(/{{\s*time\s*}}/gi, now.format('HH:mm'))
+			.replace(/{{\s*title\s*}}/gi, title);
+	}
+
+	getPromptTemplatePath(name: string): string {
+		return normalizePath(`${this.settings.promptTemplateFolder}/${name}.md`);
+	}
+
+	/**
+	 * Load a prompt template note from the template folder, falling back to the
+	 * built-in prompt for its kind when the note doesn't exist.
+	 */
+	async loadPromptTemplate(kind: PromptKind, name: string = kind): Promise<string> {
+		const file = this.app.vault.getAbstractFileByPath(this.getPromptTemplatePath(name));
+		if (file instanceof TFile) {
+			const template = stripFrontmatter(await this.app.vault.read(file)).trim();
+			if (template.length > 0) {
+				return template;
+			}
+		}
+
+		if (name !== kind) {
+			console.warn(`Prompt template "${name}" not found, using the built-in ${kind} prompt`);
+		}
+		return DEFAULT_PROMPT_TEMPLATES[kind];
+	}
+
+	// Analysis templates are notes in the template folder whose names start with "analysis"
+	listAnalysisTemplates(): string[] {
+		const folder = `${normalizeFolder(this.settings.promptTemplateFolder)}/`;
+		const names = this.app.vault.getMarkdownFiles()
+			.filter(file => file.path.startsWith(folder) && file.path.lastIndexOf('/') === folder.length - 1)
+			.map(file => file.basename)
+			.filter(name => name.toLowerCase().startsWith('analysis'));
+
+		if (!names.includes('analysis')) {
+			names.unshift('analysis');
+		}
+		return names.sort();
+	}
+
+	// Write the built-in prompts to the template folder, replacing any edits
+	async resetPromptTemplates() {
+		const folder = normalizeFolder(this.settings.promptTemplateFolder);
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+
+		for (const kind of PROMPT_KINDS) {
+			const path = this.getPromptTemplatePath(kind);
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, DEFAULT_PROMPT_TEMPLATES[kind]);
+			} else {
+				await this.app.vault.create(path, DEFAULT_PROMPT_TEMPLATES[kind]);
+			}
+		}
+
+		new Notice(`Prompt templates reset in ${folder || 'vault root'}`);
+	}
+
+	async expandJournalEntry(briefEntry: string, mode: ExpansionMode, options: ModelRunOptions = {}): Promise<string> {
+		const kind = EXPANSION_MODES[mode].prompt;
+		if (!kind) {
+			return briefEntry;
+		}
+
+		const template = await this.loadPromptTemplate(kind);
+		const prompt = renderPromptTemplate(template, {
+			entry: briefEntry,
+			date: moment().format('YYYY-MM-DD')
+		});
+
+		try {
+			const title = `Quick Journal (${EXPANSION_MODES[mode].label})`;
+			return await this.runQueuedJob('expansion', title, { command: 'expansion', mode }, options.signal, ({ signal, progress, log }) => this.runModel(prompt, {
+				signal,
+				log,
+				template: kind,
+				onOutput: output => {
+					progress(`Receiving expansion...\n(${output.length} characters so far)`);
+					if (options.onOutput) {
+						options.onOutput(output);
+					}
+				}
+			}));
+
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				throw error;
+			}
+			console.error('Error expanding journal entry:', error);
+			throw new Error(`Failed to expand journal entry: ${error.message}`);
+		}
+	}
+
+	// Keep an unsaved Quick Journal entry in plugin data; empty drafts are dropped
+	async saveQuickJournalDraft(draft: QuickJournalDraft | null) {
+		this.quickJournalDraft = draft && (draft.text.trim() || draft.expansion !== null) ? { ...draft, updatedAt: Date.now() } : null;
+		await this.saveSettings();
+	}
+
+	// Save a Quick Journal entry as composed and optionally look for connections to it
+	async saveQuickJournal(content: string, findConnections: boolean) {
+		try {
+			const journalFile = await this.saveJournalEntry(content);
+			await this.saveQuickJournalDraft(null);
+			await this.trackQuestions(extractNextSteps(content), 'next-step', this.formatDate(new Date()), journalFile.path);
+			new Notice('Journal entry saved!');
+			await this.app.workspace.getLeaf().openFile(journalFile);
+
+			// Analyze connections in the background
+			if (findConnections) {
+				this.findConnectionsFor(journalFile);
+			}
+		} catch (error) {
+			console.error('Error saving journal entry:', error);
+			new Notice(`Error: ${error.message}`);
+		}
+	}
+}
+
+class ConfirmModal extends Modal {
+	constructor(
+		app: App,
+		private title: string,
+		private message: string,
+		private confirmText: string,
+		private onConfirm: () => void | Promise<void>
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: this.title});
+		contentEl.createEl('p', {text: this.message});
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(this.confirmText)
+				.setWarning()
+				.onClick(async () => {
+					this.close();
+					await this.onConfirm();
+				}))
+			.addButton(btn => btn
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class TemplateSuggestModal extends FuzzySuggestModal<string> {
+	constructor(app: App, private templates: string[], private onChoose: (templateName: string) => void) {
+		super(app);
+		this.setPlaceholder('Choose an analysis template...');
+	}
+
+	getItems(): string[] {
+		return this.templates;
+	}
+
+	getItemText(item: string): string {
+		return item;
+	}
+
+	onChooseItem(item: string) {
+		this.onChoose(item);
+	}
+}
+
+class DateRangeModal extends Modal {
+	onSubmit: (startDate: string, endDate: string) => void;
+	startDate: string;
+	endDate: string;
+
+	constructor(app: App, onSubmit: (startDate: string, endDate: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+
+		// Default to last 30 days
+		const end = new Date();
+		const start = new Date();
+		start.setDate(start.getDate() - 30);
+
+		this.startDate = this.formatDate(start);
+		this.endDate = this.formatDate(end);
+	}
+
+	formatDate(date: Date): string {
+		const year = date.getFullYear();
+		const month = String(date.getMonth() + 1).padStart(2, '0');
+		const day = String(date.getDate()).padStart(2, '0');
+		return `${year}-${month}-${day}`;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl('h2', {text: 'Select Date Range'});
+
+		new Setting(contentEl)
+			.setName('Start Date')
+			.setDesc('First date to include (YYYY-MM-DD)')
+			.addText(text => text
+				.setValue(this.startDate)
+				.onChange(value => {
+					this.startDate = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('End Date')
+			.setDesc('Last date to include (YYYY-MM-DD)')
+			.addText(text => text
+				.setValue(this.endDate)
+				.onChange(value => {
+					this.endDate = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Analyze')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.startDate, this.endDate);
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class JobsView extends ItemView {
+	plugin: JournalAnalyzerPlugin;
+	// Progress text of each rendered job, and the status it was rendered with
+	private progressEls = new Map<number, HTMLElement>();
+	private renderedStatus = new Map<number, JobStatus>();
+
+	constructor(leaf: WorkspaceLeaf, plugin: JournalAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return JOBS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Background Jobs';
+	}
+
+	getIcon(): string {
+		return 'list-checks';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	// Progress updates only replace the job's text, so buttons stay clickable
+	update(job: Job) {
+		const progressEl = this.progressEls.get(job.id);
+		if (progressEl && this.renderedStatus.get(job.id) === job.status) {
+			progressEl.setText(job.progress);
+			return;
+		}
+		this.render();
+	}
+
+	render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		this.progressEls.clear();
+		this.renderedStatus.clear();
+
+		new Setting(container)
+			.setName('Background Jobs')
+			.setHeading()
+			.addButton(btn => btn
+				.setButtonText('Clear Finished')
+				.onClick(() => {
+					this.plugin.jobQueue.clearFinished();
+					this.render();
+				}));
+
+		const jobs = this.plugin.jobQueue.jobs;
+		if (jobs.length === 0) {
+			container.createEl('p', {
+				text: 'No jobs yet. Analyses, connection searches and other model calls run here in the background.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		// Newest first
+		for (const job of jobs.slice().reverse()) {
+			const setting = new Setting(container).setName(job.title);
+			setting.descEl.createDiv({text: describeJobTimes(job)});
+
+			const detail = job.status === 'failed' || job.status === 'cancelled'
+				? job.error || ''
+				: job.status === 'done' ? (job.result as JobResult).message : job.progress;
+			const progressEl = setting.descEl.createDiv({text: detail});
+			progressEl.style.whiteSpace = 'pre-wrap';
+			this.progressEls.set(job.id, progressEl);
+			this.renderedStatus.set(job.id, job.status);
+
+			if (job.status === 'queued' || job.status === 'running') {
+				setting.addButton(btn => btn
+					.setButtonText('Cancel')
+					.onClick(() => this.plugin.jobQueue.cancel(job.id)));
+			}
+			const open = job.result?.open;
+			if (open) {
+				setting.addButton(btn => btn
+					.setButtonText('Open')
+					.onClick(() => open()));
+			}
+		}
+	}
+}
+
+class RunHistoryView extends ItemView {
+	plugin: JournalAnalyzerPlugin;
+	// Records whose details are shown, kept across refreshes
+	private expanded = new Set<string>();
+
+	constructor(leaf: WorkspaceLeaf, plugin: JournalAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return RUN_HISTORY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Run History';
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	async refresh() {
+		const records = (await this.plugin.runHistory.read()).slice(0, RUN_HISTORY_VIEW_LIMIT);
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+
+		new Setting(container)
+			.setName('Run History')
+			.setHeading()
+			.addButton(btn => btn
+				.setButtonText('Refresh')
+				.onClick(() => this.refresh()));
+
+		if (records.length === 0) {
+			container.createEl('p', {
+				text: 'No runs recorded yet. Every analysis and other model call is recorded here.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		for (const record of records) {
+			const setting = new Setting(container).setName(record.title);
+			setting.descEl.createDiv({text: `${moment(record.startedAt).format('YYYY-MM-DD HH:mm')} · ${JOB_STATUS_LABELS[record.status]} · ${formatSeconds(record.durationMs)}`});
+			setting.descEl.createDiv({text: `${record.calls.length} model ${record.calls.length === 1 ? 'call' : 'calls'}, ${record.files.length} files, ${record.outputChars} characters of output`});
+			if (record.error) {
+				setting.descEl.createDiv({text: `Error: ${record.error}`});
+			}
+
+			setting.addButton(btn => btn
+				.setButtonText(this.expanded.has(record.id) ? 'Hide Details' : 'Details')
+				.onClick(() => {
+					if (!this.expanded.delete(record.id)) {
+						this.expanded.add(record.id);
+					}
+					this.refresh();
+				}));
+
+			const outputFile = record.outputFile;
+			if (outputFile && this.app.vault.getAbstractFileByPath(outputFile)) {
+				setting.addButton(btn => btn
+					.setButtonText('Open')
+					.onClick(() => this.plugin.openFile(outputFile)));
+			}
+			if (this.plugin.canRerun(record.inputs)) {
+				setting.addButton(btn => btn
+					.setButtonText('Re-run')
+					.onClick(() => this.plugin.rerun(record.inputs)));
+			}
+
+			if (this.expanded.has(record.id)) {
+				this.renderDetails(container, record);
+			}
+		}
+	}
+
+	renderDetails(container: HTMLElement, record: RunRecord) {
+		const detailsEl = container.createDiv({cls: 'setting-item-description'});
+		detailsEl.style.paddingBottom = '1em';
+		detailsEl.createDiv({text: `Command: ${record.command}`});
+		detailsEl.createDiv({text: `Inputs: ${JSON.stringify(record.inputs)}`});
+		detailsEl.createDiv({text: `Backend: ${record.backend}`});
+		detailsEl.createDiv({text: `Templates: ${record.templates.join(', ') || 'none'}`});
+		if (record.outputFile) {
+			detailsEl.createDiv({text: `Output: ${record.outputFile}`});
+		}
+
+		if (record.files.length > 0) {
+			detailsEl.createDiv({text: 'Files sent (SHA-256 of the content sent):'});
+			const filesEl = detailsEl.createEl('ul');
+			for (const file of record.files) {
+				filesEl.createEl('li', {text: `${file.path} (${file.hash.slice(0, 12)})`});
+			}
+		}
+
+		if (record.calls.length > 0) {
+			detailsEl.createDiv({text: 'Model calls:'});
+			const callsEl = detailsEl.createEl('ol');
+			for (const call of record.calls) {
+				const callEl = callsEl.createEl('li', {
+					text: `${call.template}: ${call.status}, ${formatSeconds(call.durationMs)}, ${call.promptChars} characters sent, ${call.outputChars} received${call.error ? ` (${call.error})` : ''}`
+				});
+				for (const [label, text] of [['Prompt', call.prompt], ['Response', call.response]]) {
+					if (text !== undefined) {
+						const textEl = callEl.createEl('details');
+						textEl.createEl('summary', {text: label});
+						const preEl = textEl.createEl('pre', {text});
+						preEl.style.whiteSpace = 'pre-wrap';
+					}
+				}
+			}
+		}
+	}
+}
+
+class AskJournalView extends ItemView {
+	plugin: JournalAnalyzerPlugin;
+	history: ChatTurn[] = [];
+	messagesEl: HTMLElement;
+	inputEl: HTMLTextAreaElement;
+	controller: AbortController | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: JournalAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return ASK_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Ask Your Journal';
+	}
+
+	getIcon(): string {
+		return 'message-circle';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.createEl('h4', {text: 'Ask Your Journal'});
+
+		this.messagesEl = container.createDiv();
+		this.messagesEl.style.maxHeight = '60vh';
+		this.messagesEl.style.overflowY = 'auto';
+		this.messagesEl.style.marginBottom = '1em';
+
+		// Rendered [[links]] don't navigate by themselves in a custom view
+		this.registerDomEvent(this.messagesEl, 'click', (event: MouseEvent) => {
+			const link = (event.target as HTMLElement).closest('a.internal-link');
+			const target = link?.getAttribute('data-href') || link?.getAttribute('href');
+			if (target) {
+				event.preventDefault();
+				this.app.workspace.openLinkText(target, '', event.ctrlKey || event.metaKey);
+			}
+		});
+
+		this.inputEl = container.createEl('textarea', {placeholder: 'When did I last feel this burnt out, and what helped?'});
+		this.inputEl.style.width = '100%';
+		this.inputEl.style.height = '80px';
+		this.inputEl.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+				event.preventDefault();
+				this.ask();
+			}
+		});
+
+		new Setting(container)
+			.addButton(btn => btn
+				.setButtonText('Ask')
+				.setCta()
+				.onClick(() => this.ask()))
+			.addButton(btn => btn
+				.setButtonText('Save as Note')
+				.onClick(() => this.saveConversation()))
+			.addButton(btn => btn
+				.setButtonText('Clear')
+				.onClick(() => {
+					this.controller?.abort();
+					this.history = [];
+					this.messagesEl.empty();
+				}));
+	}
+
+	async onClose() {
+		this.controller?.abort();
+	}
+
+	async ask() {
+		const question = this.inputEl.value.trim();
+		if (!question || this.controller) {
+			return;
+		}
+		this.inputEl.value = '';
+
+		this.messagesEl.createEl('p', {text: question}).style.fontWeight = 'bold';
+		const answerEl = this.messagesEl.createDiv();
+		const statusEl = answerEl.createEl('p', {text: `Searching entries and asking ${this.plugin.getBackendLabel()}...`, cls: 'setting-item-description'});
+		const controller = new AbortController();
+		this.controller = controller;
+		const cancelButton = answerEl.createEl('button', {text: 'Cancel'});
+		cancelButton.addEventListener('click', () => controller.abort());
+
+		try {
+			const turn = await this.plugin.askJournal(question, this.history, {
+				signal: controller.signal,
+				onOutput: output => statusEl.setText(`Receiving answer...\n(${output.length} characters so far)`)
+			});
+			this.history.push(turn);
+			answerEl.empty();
+			await this.renderAnswer(answerEl, turn);
+		} catch (error) {
+			answerEl.empty();
+			answerEl.createEl('p', {
+				text: error instanceof CancelledError ? 'Cancelled.' : `Error: ${error.message}`,
+				cls: 'setting-item-description'
+			});
+		} finally {
+			this.controller = null;
+		}
+		this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
+	}
+
+	async renderAnswer(answerEl: HTMLElement, turn: ChatTurn) {
+		await MarkdownRenderer.renderMarkdown(turn.answer, answerEl.createDiv(), '', this);
+
+		if (turn.sources.length > 0) {
+			const sourcesEl = answerEl.createEl('p', {text: 'Entries consulted: ', cls: 'setting-item-description'});
+			turn.sources.forEach((path, index) => {
+				const link = sourcesEl.createEl('a', {text: path.split('/').pop()?.replace(/\.md$/, '') || path, href: '#'});
+				link.addEventListener('click', (event) => {
+					event.preventDefault();
+					this.plugin.openFile(path);
+				});
+				if (index < turn.sources.length - 1) {
+					sourcesEl.appendText(', ');
+				}
+			});
+		}
+	}
+
+	async saveConversation() {
+		if (this.history.length === 0) {
+			new Notice('Nothing to save yet');
+			return;
+		}
+		try {
+			const note = await this.plugin.saveConversation(this.history);
+			await this.app.workspace.getLeaf().openFile(note);
+			new Notice('Conversation saved');
+		} catch (error) {
+			console.error('Error saving conversation:', error);
+			new Notice(`Error saving conversation: ${error.message}`);
+		}
+	}
+}
+
+class TimelineView extends ItemView {
+	plugin: JournalAnalyzerPlugin;
+	startDate: string;
+	endDate: string;
+	hidden = new Set<string>();
+	chartEl: HTMLElement;
+	entries: ScoredEntry[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: JournalAnalyzerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.endDate = moment().format('YYYY-MM-DD');
+		this.startDate = moment().subtract(30, 'days').format('YYYY-MM-DD');
+	}
+
+	getViewType(): string {
+		return TIMELINE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Mood Timeline';
+	}
+
+	getIcon(): string {
+		return 'activity';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.createEl('h4', {text: 'Mood Timeline'});
+
+		new Setting(container)
+			.setName('From')
+			.addText(text => text
+				.setValue(this.startDate)
+				.onChange(value => {
+					this.startDate = value;
+				}));
+
+		new Setting(container)
+			.setName('To')
+			.addText(text => text
+				.setValue(this.endDate)
+				.onChange(value => {
+					this.endDate = value;
+				}))
+			.addButton(btn => btn
+				.setButtonText('Refresh')
+				.onClick(() => this.refresh()));
+
+		this.chartEl = container.createDiv();
+		await this.refresh();
+	}
+
+	async refresh() {
+		if (!this.chartEl) {
+			return;
+		}
+
+		try {
+			const start = parseDateInput(this.startDate, 'start');
+			const end = parseDateInput(this.endDate, 'end');
+			this.entries = (await this.plugin.getScoredEntries(start, end)).filter(entry => entry.date);
+			this.renderChart(start, end);
+		} catch (error) {
+			this.chartEl.empty();
+			this.chartEl.createEl('p', {text: error.message});
+		}
+	}
+
+	renderChart(startDate: string, endDate: string) {
+		const dimensions = parseDimensions(this.plugin.settings.scoreDimensions);
+		this.chartEl.empty();
+
+		const scored = this.entries.filter(entry => Object.keys(entry.scores).length > 0);
+		if (scored.length === 0) {
+			this.chartEl.createEl('p', {text: this.plugin.settings.scoreSource === 'infer'
+				? 'No scored entries in this range. Run "Score Journal Entries" to score them.'
+				: 'No entries in this range have scores in their frontmatter.'});
+			return;
+		}
+
+		// Legend; click a dimension to hide or show its line
+		const legend = this.chartEl.createDiv();
+		dimensions.forEach((dimension, index) => {
+			const item = legend.createEl('span', {text: `● ${dimension}`});
+			item.style.color = TIMELINE_COLORS[index % TIMELINE_COLORS.length];
+			item.style.marginRight = '12px';
+			item.style.cursor = 'pointer';
+			item.style.opacity = this.hidden.has(dimension) ? '0.4' : '1';
+			item.addEventListener('click', () => {
+				if (this.hidden.has(dimension)) {
+					this.hidden.delete(dimension);
+				} else {
+					this.hidden.add(dimension);
+				}
+				this.renderChart(startDate, endDate);
+			});
+		});
+
+		const width = 600;
+		const height = 300;
+		const padding = 32;
+		const values = ([] as number[]).concat(...scored.map(entry => Object.values(entry.scores)));
+		const minValue = Math.min(1, ...values);
+		const maxValue = Math.max(10, ...values);
+		const days = Math.max(moment(endDate).diff(moment(startDate), 'days'), 1);
+		const x = (date: string) => padding + moment(date).diff(moment(startDate), 'days') / days * (width - 2 * padding);
+		const y = (value: number) => height - padding - (value - minValue) / (maxValue - minValue) * (height - 2 * padding);
+
+		const svg = this.chartEl.createSvg('svg', {attr: {viewBox: `0 0 ${width} ${height}`, width: '100%'}});
+		const label = (text: string, attr: Record<string, string | number>) => {
+			svg.createSvg('text', {attr: Object.assign({'font-size': 10, fill: 'var(--text-muted)'}, attr)}).textContent = text;
+		};
+
+		// Gridlines at the bottom, middle and top of the scale, plus date labels
+		for (const value of [minValue, (minValue + maxValue) / 2, maxValue]) {
+			svg.createSvg('line', {attr: {x1: padding, x2: width - padding, y1: y(value), y2: y(value), stroke: 'var(--background-modifier-border)'}});
+			label(String(Math.round(value * 10) / 10), {x: 4, y: y(value) + 4});
+		}
+		label(startDate, {x: padding, y: height - 8});
+		label(endDate, {x: width - padding, y: height - 8, 'text-anchor': 'end'});
+
+		dimensions.forEach((dimension, index) => {
+			if (this.hidden.has(dimension)) {
+				return;
+			}
+			const color = TIMELINE_COLORS[index % TIMELINE_COLORS.length];
+			const points = scored.filter(entry => dimension in entry.scores);
+
+			svg.createSvg('polyline', {attr: {
+				points: points.map(entry => `${x(entry.date)},${y(entry.scores[dimension])}`).join(' '),
+				fill: 'none',
+				stroke: color,
+				'stroke-width': 2
+			}});
+
+			for (const entry of points) {
+				const circle = svg.createSvg('circle', {attr: {cx: x(entry.date), cy: y(entry.scores[dimension]), r: 4, fill: color}});
+				circle.style.cursor = 'pointer';
+				circle.createSvg('title').textContent = `${entry.date} - ${dimension}: ${entry.scores[dimension]}`;
+				circle.addEventListener('click', () => {
+					this.app.workspace.getLeaf().openFile(entry.file);
+				});
+			}
+		});
+	}
+}
+
+class EntityManagerModal extends Modal {
+	plugin: JournalAnalyzerPlugin;
+	filter = '';
+	listEl: HTMLElement;
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Entities'});
+
+		new Setting(contentEl)
+			.setName('Filter')
+			.addText(text => text
+				.setPlaceholder('Name or alias')
+				.setValue(this.filter)
+				.onChange(value => {
+					this.filter = value;
+					this.renderList();
+				}));
+
+		this.listEl = contentEl.createDiv();
+		this.renderList();
+	}
+
+	renderList() {
+		this.listEl.empty();
+
+		const filter = normalizeEntityName(this.filter);
+		const entities = Object.values(this.plugin.entityIndex.entities)
+			.filter(entity => !filter || [entity.name, ...entity.aliases].some(name => normalizeEntityName(name).includes(filter)))
+			.sort((a, b) => a.name.localeCompare(b.name));
+
+		if (entities.length === 0) {
+			this.listEl.createEl('p', {text: this.filter ? 'No matching entities.' : 'No entities yet. Run "Extract Entities" first.'});
+			return;
+		}
+
+		for (const entity of entities) {
+			new Setting(this.listEl)
+				.setName(`${entity.name} (${entity.type})`)
+				.setDesc(`${entity.mentions.length} ${entity.mentions.length === 1 ? 'mention' : 'mentions'}${entity.aliases.length > 0 ? ` · also: ${entity.aliases.join(', ')}` : ''}`)
+				.addButton(btn => btn
+					.setButtonText('Rename')
+					.onClick(() => {
+						new TextInputModal(this.app, `Rename ${entity.name}`, entity.name, async (newName: string) => {
+							await this.plugin.renameEntity(entity.name, newName);
+							this.renderList();
+						}).open();
+					}))
+				.addButton(btn => btn
+					.setButtonText('Merge Into...')
+					.onClick(() => {
+						const targets = Object.values(this.plugin.entityIndex.entities).filter(other => other !== entity);
+						new EntitySuggestModal(this.app, targets, target => {
+							new ConfirmModal(
+								this.app,
+								'Merge Entities',
+								`Merge "${entity.name}" into "${target.name}"? Its mentions and names move to "${target.name}" and its index note is moved to the trash.`,
+								'Merge',
+								async () => {
+									await this.plugin.mergeEntities(entity.name, target.name);
+									this.renderList();
+								}
+							).open();
+						}).open();
+					}));
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class EntitySuggestModal extends FuzzySuggestModal<EntityRecord> {
+	constructor(app: App, private entities: EntityRecord[], private onChoose: (entity: EntityRecord) => void) {
+		super(app);
+		this.setPlaceholder('Choose the entity to merge into...');
+	}
+
+	getItems(): EntityRecord[] {
+		return this.entities;
+	}
+
+	getItemText(item: EntityRecord): string {
+		return item.aliases.length > 0 ? `${item.name} (${item.aliases.join(', ')})` : item.name;
+	}
+
+	onChooseItem(item: EntityRecord) {
+		this.onChoose(item);
+	}
+}
+
+class TextInputModal extends Modal {
+	value: string;
+
+	constructor(app: App, private title: string, initialValue: string, private onSubmit: (value: string) => void) {
+		super(app);
+		this.value = initialValue;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl('h2', {text: this.title});
+
+		new Setting(contentEl)
+			.addText(text => text
+				.setValue(this.value)
+				.onChange(value => {
+					this.value = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(this.value);
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class OpenQuestionsModal extends Modal {
+	plugin: JournalAnalyzerPlugin;
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Open Questions'});
+
+		const questions = this.plugin.getOpenQuestions();
+		if (questions.length === 0) {
+			contentEl.createEl('p', {text: 'No open questions. Questions to Consider from analyses and next steps from expanded entries appear here.'});
+			return;
+		}
+
+		for (const question of questions) {
+			const addressed = question.addressedIn.length > 0 ? ` · addressed in ${question.addressedIn.length} ${question.addressedIn.length === 1 ? 'entry' : 'entries'}` : '';
+			new Setting(contentEl)
+				.setName(`${question.id}: ${question.text}`)
+				.setDesc(`${question.kind === 'next-step' ? 'Next step' : 'Question'} raised ${question.raisedOn} in ${question.source}${addressed}`)
+				.addButton(btn => btn
+					.setButtonText('Open Source')
+					.onClick(async () => {
+						this.close();
+						await this.plugin.openFile(question.source);
+					}))
+				.addButton(btn => btn
+					.setButtonText('Resolve')
+					.onClick(async () => {
+						await this.plugin.setQuestionStatus(question.id, 'resolved');
+						this.onOpen();
+					}));
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class PromptPreviewModal extends Modal {
+	constructor(app: App, private summary: string, private prompt: string) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl('h2', {text: 'Prompt Preview'});
+		contentEl.createEl('p', {text: this.summary});
+
+		const promptEl = contentEl.createEl('textarea', {text: this.prompt});
+		promptEl.readOnly = true;
+		promptEl.rows = 20;
+		promptEl.style.width = '100%';
+		promptEl.style.fontFamily = 'var(--font-monospace)';
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Copy')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(this.prompt);
+					new Notice('Prompt copied');
+				}))
+			.addButton(btn => btn
+				.setButtonText('Close')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class ComparePeriodsModal extends Modal {
+	onSubmit: (first: DateRange, second: DateRange) => void;
+	values: Record<'firstStart' | 'firstEnd' | 'secondStart' | 'secondEnd', string>;
+
+	constructor(app: App, onSubmit: (first: DateRange, second: DateRange) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+
+		// Default to last month compared with this month so far
+		const lastMonth = moment().subtract(1, 'month');
+		this.values = {
+			firstStart: lastMonth.clone().startOf('month').format('YYYY-MM-DD'),
+			firstEnd: lastMonth.clone().endOf('month').format('YYYY-MM-DD'),
+			secondStart: moment().startOf('month').format('YYYY-MM-DD'),
+			secondEnd: moment().format('YYYY-MM-DD')
+		};
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl('h2', {text: 'Compare Periods'});
+
+		const fields: [keyof ComparePeriodsModal['values'], string, string][] = [
+			['firstStart', 'First Period Start', 'e.g. before a change (YYYY-MM-DD)'],
+			['firstEnd', 'First Period End', 'Last date to include (YYYY-MM-DD)'],
+			['secondStart', 'Second Period Start', 'e.g. after a change (YYYY-MM-DD)'],
+			['secondEnd', 'Second Period End', 'Last date to include (YYYY-MM-DD)']
+		];
+		for (const [key, name, desc] of fields) {
+			new Setting(contentEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setValue(this.values[key])
+					.onChange(value => {
+						this.values[key] = value;
+					}));
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Compare')
+				.setCta()
+				.onClick(() => {
+					let first: DateRange;
+					let second: DateRange;
+					try {
+						first = { startDate: parseDateInput(this.values.firstStart, 'first start'), endDate: parseDateInput(this.values.firstEnd, 'first end') };
+						second = { startDate: parseDateInput(this.values.secondStart, 'second start'), endDate: parseDateInput(this.values.secondEnd, 'second end') };
+					} catch (error) {
+						new Notice(error.message);
+						return;
+					}
+					if (first.startDate > first.endDate || second.startDate > second.endDate) {
+						new Notice('Each period must start on or before its end date');
+						return;
+					}
+					this.close();
+					this.onSubmit(first, second);
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class RollupModal extends Modal {
+	onSubmit: (period: RollupPeriod, date: string) => void;
+	period: RollupPeriod = 'month';
+	date: string;
+
+	constructor(app: App, onSubmit: (period: RollupPeriod, date: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+		this.date = moment().format('YYYY-MM-DD');
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl('h2', {text: 'Generate Period Rollup'});
+
+		new Setting(contentEl)
+			.setName('Period')
+			.setDesc('Weeks are analyzed from entries; months from weeks; quarters and years from months')
+			.addDropdown(dropdown => {
+				ROLLUP_PERIODS.forEach(period => dropdown.addOption(period, period.charAt(0).toUpperCase() + period.slice(1)));
+				dropdown
+					.setValue(this.period)
+					.onChange(value => {
+						this.period = value as RollupPeriod;
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Date')
+			.setDesc('Any date in the period (YYYY-MM-DD)')
+			.addText(text => text
+				.setValue(this.date)
+				.onChange(value => {
+					this.date = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText('Generate')
+				.setCta()
+				.onClick(() => {
+					let date: string;
+					try {
+						date = parseDateInput(this.date, 'rollup');
+					} catch (error) {
+						new Notice(error.message);
+						return;
+					}
+					this.close();
+					this.onSubmit(this.period, date);
+				}));
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class ConnectionSuggestionModal extends Modal {
+	plugin: JournalAnalyzerPlugin;
+	connections: Connection[];
+	currentFile: TFile;
+	discarded: Record<string, number>;
+	added = new Set<Connection>();
+	rejected = new Set<Connection>();
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin, connections: Connection[], currentFile: TFile, discarded: Record<string, number> = {}) {
+		super(app);
+		this.plugin = plugin;
+		this.connections = connections;
+		this.currentFile = currentFile;
+		this.discarded = discarded;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Suggested Connections'});
+		contentEl.createEl('p', {
+			text: `Found ${this.connections.length} potential connections for ${this.currentFile.basename}`,
+			cls: 'connection-summary'
+		});
+
+		const discardedSummary = summarizeDiscarded(this.discarded);
+		if (discardedSummary) {
+			contentEl.createEl('p', {
+				text: discardedSummary,
+				cls: 'connection-discarded'
+			});
+		}
+
+		// Sort by confidence descending
+		const sortedConnections = this.connections.sort((a, b) => b.confidence - a.confidence);
+
+		for (const connection of sortedConnections) {
+			const connectionDiv = contentEl.createDiv({cls: 'connection-item'});
+
+			// Header with confidence and type
+			const headerDiv = connectionDiv.createDiv({cls: 'connection-header'});
+			headerDiv.createEl('span', {
+				text: `${connection.confidence}% confidence`,
+				cls: 'connection-confidence'
+			});
+			headerDiv.createEl('span', {
+				text: connection.connectionType,
+				cls: 'connection-type'
+			});
+
+			// Target file
+			connectionDiv.createEl('div', {
+				text: `→ ${connection.targetFile}`,
+				cls: 'connection-target'
+			});
+
+			// Source text
+			connectionDiv.createEl('div', {
+				text: `"${connection.sourceText}"`,
+				cls: 'connection-source-text'
+			});
+
+			// Reason
+			connectionDiv.createEl('div', {
+				text: connection.reason,
+				cls: 'connection-reason'
+			});
+
+			// Action buttons
+			const buttonContainer = connectionDiv.createDiv({cls: 'connection-buttons'});
+
+			// Add link button
+			const addButton = buttonContainer.createEl('button', {text: 'Add Link'});
+			addButton.addEventListener('click', async () => {
+				try {
+					const linked = await this.plugin.insertWikiLinks(this.currentFile, [connection]);
+
+					if (linked.length > 0) {
+						new Notice(`Added link to ${connection.targetFile}`);
+						this.added.add(connection);
+						await this.plugin.acceptConnections([connection]);
+						addButton.disabled = true;
+						rejectButton.disabled = true;
+						addButton.setText('Added ✓');
+					} else {
+						new Notice('Could not find exact text to link. Text may have changed.');
+					}
+				} catch (error) {
+					new Notice(`Error adding link: ${error.message}`);
+				}
+			});
+
+			// Reject button
+			const rejectButton = buttonContainer.createEl('button', {text: 'Reject'});
+			rejectButton.addEventListener('click', async () => {
+				this.rejected.add(connection);
+				await this.plugin.recordConnectionDecision(connection, 'rejected');
+				addButton.disabled = true;
+				rejectButton.disabled = true;
+				rejectButton.setText('Rejected');
+				connectionDiv.addClass('connection-rejected');
+			});
 
 			// Open target button
 			const openButton = buttonContainer.createEl('button', {text: 'Open Target'});
@@ -756,27 +6635,16 @@ class ConnectionSuggestionModal extends Modal {
 		const footerDiv = contentEl.createDiv({cls: 'connection-footer'});
 		const addAllButton = footerDiv.createEl('button', {text: 'Add All Links', cls: 'mod-cta'});
 		addAllButton.addEventListener('click', async () => {
-			let added = 0;
-			let failed = 0;
+			const pending = sortedConnections.filter(connection => !this.added.has(connection) && !this.rejected.has(connection));
 
-			for (const connection of sortedConnections) {
-				try {
-					const success = await this.plugin.insertWikiLink(
-						this.currentFile,
-						connection.sourceText,
-						connection.targetFile
-					);
-					if (success) {
-						added++;
-					} else {
-						failed++;
-					}
-				} catch (error) {
-					failed++;
-				}
+			try {
+				const linked = await this.plugin.insertWikiLinks(this.currentFile, pending);
+				await this.plugin.acceptConnections(linked);
+				const failed = pending.length - linked.length;
+				new Notice(`Added ${linked.length} links. ${failed > 0 ? `${failed} failed.` : ''}`);
+			} catch (error) {
+				new Notice(`Error adding links: ${error.message}`);
 			}
-
-			new Notice(`Added ${added} links. ${failed > 0 ? `${failed} failed.` : ''}`);
 			this.close();
 		});
 
@@ -790,168 +6658,783 @@ class ConnectionSuggestionModal extends Modal {
 	}
 }
 
+class ConnectionReviewModal extends Modal {
+	plugin: JournalAnalyzerPlugin;
+	selection: ConnectionReviewScope = { folder: '', tag: '', onlyUnlinked: false };
+	private countEl: HTMLElement;
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Find Connections Across Notes'});
+
+		const review = this.plugin.connectionReview;
+		if (review && review.pending.length > 0) {
+			new Setting(contentEl)
+				.setName('Unfinished review')
+				.setDesc(`${review.total - review.pending.length} of ${review.total} notes processed, ${review.suggestions.length} suggestions so far`)
+				.addButton(btn => btn
+					.setButtonText('Resume')
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.plugin.runConnectionReview();
+					}));
+		}
+
+		contentEl.createEl('p', {text: 'Each matching note is analyzed in turn. All suggestions are collected in a review note in your meta folder.'});
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Only notes in this folder (leave empty for the whole vault)')
+			.addText(text => text
+				.setPlaceholder(this.plugin.settings.journalFolder)
+				.onChange(value => {
+					this.selection.folder = value;
+					this.updateCount();
+				}));
+
+		new Setting(contentEl)
+			.setName('Tag')
+			.setDesc('Only notes with this tag (leave empty for any)')
+			.addText(text => text
+				.setPlaceholder('#journal')
+				.onChange(value => {
+					this.selection.tag = value;
+					this.updateCount();
+				}));
+
+		new Setting(contentEl)
+			.setName('Only notes without links')
+			.setDesc('Skip notes that already link to other notes')
+			.addToggle(toggle => toggle
+				.setValue(this.selection.onlyUnlinked)
+				.onChange(value => {
+					this.selection.onlyUnlinked = value;
+					this.updateCount();
+				}));
+
+		this.countEl = contentEl.createEl('p', {cls: 'connection-summary'});
+		this.updateCount();
+
+		new Setting(contentEl)
+			.addButton(btn => btn
+				.setButtonText(review && review.pending.length > 0 ? 'Start New Review' : 'Start')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.plugin.startConnectionReview({ ...this.selection });
+				}));
+	}
+
+	updateCount() {
+		const count = this.plugin.getConnectionReviewFiles(this.selection).length;
+		this.countEl.setText(`${count} ${count === 1 ? 'note' : 'notes'} selected`);
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class ConnectionLedgerModal extends Modal {
+	plugin: JournalAnalyzerPlugin;
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Connection Decisions'});
+
+		const keys = Object.keys(this.plugin.connectionLedger)
+			.sort((a, b) => this.plugin.connectionLedger[b].decidedAt - this.plugin.connectionLedger[a].decidedAt);
+
+		if (keys.length === 0) {
+			contentEl.createEl('p', {text: 'No accepted or rejected suggestions yet.'});
+			return;
+		}
+
+		for (const key of keys) {
+			const entry = this.plugin.connectionLedger[key];
+			new Setting(contentEl)
+				.setName(`${entry.decision === 'rejected' ? 'Rejected' : 'Accepted'}: "${entry.text}"`)
+				.setDesc(`${entry.source} → ${entry.target} (${new Date(entry.decidedAt).toLocaleDateString()})`)
+				.addButton(btn => btn
+					.setButtonText('Forget')
+					.onClick(async () => {
+						await this.plugin.forgetConnectionDecision(key);
+						this.onOpen();
+					}));
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
 class QuickJournalModal extends Modal {
 	plugin: JournalAnalyzerPlugin;
 	textArea: HTMLTextAreaElement;
+	draft: QuickJournalDraft;
+	restored: boolean;
+	saved = false;
+	controller: AbortController | null = null;
+	persistDraft = debounce(() => this.plugin.saveQuickJournalDraft(this.draft), 1000, true);
 
 	constructor(app: App, plugin: JournalAnalyzerPlugin) {
 		super(app);
 		this.plugin = plugin;
+		this.restored = plugin.quickJournalDraft !== null;
+		this.draft = plugin.quickJournalDraft
+			? { ...plugin.quickJournalDraft }
+			: { text: '', mode: plugin.settings.quickJournalMode, expansion: null, updatedAt: Date.now() };
+	}
+
+	onOpen() {
+		if (this.draft.expansion !== null) {
+			this.showPreview();
+		} else {
+			this.showEditor();
+		}
+	}
+
+	showEditor() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Quick Journal Entry'});
+
+		if (this.restored) {
+			contentEl.createEl('p', {text: `Restored your unsaved draft from ${new Date(this.draft.updatedAt).toLocaleString()}.`, cls: 'setting-item-description'});
+		}
+
+		new Setting(contentEl)
+			.setName('Expansion')
+			.setDesc('Your original text is always kept in the saved entry')
+			.addDropdown(dropdown => {
+				for (const [mode, { label }] of Object.entries(EXPANSION_MODES)) {
+					dropdown.addOption(mode, label);
+				}
+				dropdown
+					.setValue(this.draft.mode)
+					.onChange(async (value) => {
+						this.draft.mode = value as ExpansionMode;
+						this.plugin.settings.quickJournalMode = this.draft.mode;
+						await this.plugin.saveSettings();
+						renderButtons();
+					});
+			});
+
+		// Large text area for entry
+		this.textArea = contentEl.createEl('textarea', {
+			cls: 'journal-entry-textarea',
+			placeholder: 'Write your journal entry here...\n\nThis will be saved to today\'s journal file and automatically analyzed for connections to other notes.'
+		});
+		this.textArea.value = this.draft.text;
+		this.textArea.addEventListener('input', () => {
+			this.draft.text = this.textArea.value;
+			this.persistDraft();
+		});
+
+		// Style the text area
+		this.textArea.style.width = '100%';
+		this.textArea.style.height = '300px';
+		this.textArea.style.marginBottom = '1em';
+		this.textArea.style.padding = '0.5em';
+		this.textArea.style.fontSize = '1em';
+		this.textArea.style.fontFamily = 'inherit';
+
+		// Focus the text area
+		this.textArea.focus();
+
+		const statusEl = contentEl.createEl('p', {cls: 'setting-item-description'});
+
+		// Button container
+		const buttonContainer = contentEl.createDiv({cls: 'modal-button-container'});
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.gap = '0.5em';
+		buttonContainer.style.justifyContent = 'flex-end';
+
+		let primaryButton: HTMLButtonElement;
+		const renderButtons = () => {
+			buttonContainer.empty();
+
+			if (this.draft.mode === 'none') {
+				// Save & Analyze button (primary action)
+				primaryButton = buttonContainer.createEl('button', {text: 'Save & Analyze', cls: 'mod-cta'});
+				primaryButton.addEventListener('click', () => this.save(true));
+
+				// Save Only button (secondary action)
+				const saveButton = buttonContainer.createEl('button', {text: 'Save Only'});
+				saveButton.addEventListener('click', () => this.save(false));
+			} else {
+				primaryButton = buttonContainer.createEl('button', {text: 'Preview', cls: 'mod-cta'});
+				primaryButton.addEventListener('click', () => this.generate(statusEl, renderButtons));
+			}
+
+			// Cancel button
+			const cancelButton = buttonContainer.createEl('button', {text: 'Cancel'});
+			cancelButton.addEventListener('click', () => this.close());
+		};
+		renderButtons();
+
+		// Handle Enter key with Ctrl/Cmd to submit
+		this.textArea.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+				event.preventDefault();
+				primaryButton.click();
+			}
+		});
+	}
+
+	// Run the selected expansion, then show it for review
+	async generate(statusEl: HTMLElement, renderButtons: () => void) {
+		if (this.draft.text.trim().length === 0) {
+			new Notice('Please enter some text');
+			return;
+		}
+
+		this.controller = new AbortController();
+		const controller = this.controller;
+		const buttonContainer = this.contentEl.querySelector('.modal-button-container') as HTMLElement;
+		buttonContainer.empty();
+		const cancelButton = buttonContainer.createEl('button', {text: 'Cancel Expansion'});
+		cancelButton.addEventListener('click', () => controller.abort());
+		statusEl.setText(`${EXPANSION_MODES[this.draft.mode].label} with ${this.plugin.getBackendLabel()}...`);
+
+		try {
+			const expansion = await this.plugin.expandJournalEntry(this.draft.text.trim(), this.draft.mode, {
+				signal: controller.signal,
+				onOutput: output => statusEl.setText(`Receiving expansion...\n(${output.length} characters so far)`)
+			});
+			this.draft.expansion = expansion;
+			await this.plugin.saveQuickJournalDraft(this.draft);
+			this.showPreview();
+		} catch (error) {
+			if (error instanceof CancelledError) {
+				statusEl.setText('Expansion cancelled.');
+			} else {
+				console.error('Error expanding journal entry:', error);
+				statusEl.setText(`${error.message}. Your entry is kept as a draft.`);
+			}
+			renderButtons();
+		} finally {
+			this.controller = null;
+		}
+	}
+
+	// Show the original next to the editable expansion before anything is saved
+	showPreview() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Review Expansion'});
+
+		contentEl.createEl('h4', {text: 'Original'});
+		const originalEl = contentEl.createDiv();
+		originalEl.setText(this.draft.text);
+		originalEl.style.whiteSpace = 'pre-wrap';
+		originalEl.style.maxHeight = '150px';
+		originalEl.style.overflowY = 'auto';
+		originalEl.style.padding = '0.5em';
+		originalEl.style.border = '1px solid var(--background-modifier-border)';
+
+		contentEl.createEl('h4', {text: `${EXPANSION_MODES[this.draft.mode].label} (editable)`});
+		const expansionArea = contentEl.createEl('textarea');
+		expansionArea.value = this.draft.expansion || '';
+		expansionArea.style.width = '100%';
+		expansionArea.style.height = '300px';
+		expansionArea.style.marginBottom = '1em';
+		expansionArea.style.padding = '0.5em';
+		expansionArea.style.fontFamily = 'inherit';
+		expansionArea.addEventListener('input', () => {
+			this.draft.expansion = expansionArea.value;
+			this.persistDraft();
+		});
+
+		const buttonContainer = contentEl.createDiv({cls: 'modal-button-container'});
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.gap = '0.5em';
+		buttonContainer.style.justifyContent = 'flex-end';
+
+		const analyzeButton = buttonContainer.createEl('button', {text: 'Save & Analyze', cls: 'mod-cta'});
+		analyzeButton.addEventListener('click', () => this.save(true));
+
+		const saveButton = buttonContainer.createEl('button', {text: 'Save Only'});
+		saveButton.addEventListener('click', () => this.save(false));
+
+		// Drop the expansion and go back to the original text
+		const rejectButton = buttonContainer.createEl('button', {text: 'Reject Expansion'});
+		rejectButton.addEventListener('click', async () => {
+			this.draft.expansion = null;
+			await this.plugin.saveQuickJournalDraft(this.draft);
+			this.restored = false;
+			this.showEditor();
+		});
+	}
+
+	async save(findConnections: boolean) {
+		const original = this.draft.text.trim();
+		if (original.length === 0) {
+			new Notice('Please enter some text');
+			return;
+		}
+
+		// The draft stays in plugin data until the entry is written
+		this.persistDraft.cancel();
+		await this.plugin.saveQuickJournalDraft(this.draft);
+		this.saved = true;
+		this.close();
+		await this.plugin.saveQuickJournal(composeQuickJournalEntry(original, this.draft.mode, this.draft.expansion), findConnections);
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		// Closing keeps the entry as a draft; a running expansion is stopped
+		this.controller?.abort();
+		if (!this.saved) {
+			this.persistDraft.cancel();
+			this.plugin.saveQuickJournalDraft(this.draft);
+		}
+	}
+}
+
+class JournalAnalyzerSettingTab extends PluginSettingTab {
+	plugin: JournalAnalyzerPlugin;
+
+	constructor(app: App, plugin: JournalAnalyzerPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
 	}
 
-	onOpen() {
-		const {contentEl} = this;
-		contentEl.empty();
+	display(): void {
+		const {containerEl} = this;
+
+		containerEl.empty();
+
+		containerEl.createEl('h2', {text: 'Journal Analyzer Settings'});
+
+		new Setting(containerEl)
+			.setName('Journal Folder')
+			.setDesc('Path to your journal folder (relative to vault root)')
+			.addText(text => text
+				.setPlaceholder('journal')
+				.setValue(this.plugin.settings.journalFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.journalFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Use Daily Notes Settings')
+			.setDesc('Use the folder, date format and template of the core Daily Notes plugin when it is enabled')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useDailyNotesSettings)
+				.onChange(async (value) => {
+					this.plugin.settings.useDailyNotesSettings = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Journal Folder Pattern')
+			.setDesc('Dated subfolders inside the journal folder, as a moment.js format (e.g., "YYYY/MM"). Leave empty for a flat folder.')
+			.addText(text => text
+				.setPlaceholder('YYYY/MM')
+				.setValue(this.plugin.settings.journalFolderPattern)
+				.onChange(async (value) => {
+					this.plugin.settings.journalFolderPattern = value.trim().replace(/^\/+|\/+$/g, '');
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Journal Date Format')
+			.setDesc('File name of each entry as a moment.js format (e.g., "YYYY-MM-DD" or "MMM D, YYYY")')
+			.addText(text => text
+				.setPlaceholder('YYYY-MM-DD')
+				.setValue(this.plugin.settings.journalDateFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.journalDateFormat = value.trim() || DEFAULT_SETTINGS.journalDateFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Journal Template')
+			.setDesc('Template note for new entries. Supports {{date}}, {{date:FORMAT}}, {{time}} and {{title}}.')
+			.addText(text => text
+				.setPlaceholder('templates/journal')
+				.setValue(this.plugin.settings.journalTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.journalTemplate = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Use Frontmatter Date')
+			.setDesc('Prefer the date in an entry\'s frontmatter over the date in its file name')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useFrontmatterDate)
+				.onChange(async (value) => {
+					this.plugin.settings.useFrontmatterDate = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frontmatter Date Field')
+			.setDesc('Frontmatter property holding the entry date')
+			.addText(text => text
+				.setPlaceholder('date')
+				.setValue(this.plugin.settings.frontmatterDateField)
+				.onChange(async (value) => {
+					this.plugin.settings.frontmatterDateField = value.trim() || DEFAULT_SETTINGS.frontmatterDateField;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Meta Folder')
+			.setDesc('Where to save analysis notes')
+			.addText(text => text
+				.setPlaceholder('journal/meta')
+				.setValue(this.plugin.settings.metaFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.metaFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Days to Analyze')
+			.setDesc('Number of days to include in recent analysis')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.daysToAnalyze))
+				.onChange(async (value) => {
+					this.plugin.settings.daysToAnalyze = parseInt(value) || 30;
+					await this.plugin.saveSettings();
+				}));
+
+		// Model backend section
+		containerEl.createEl('h3', {text: 'Model Backend'});
+
+		new Setting(containerEl)
+			.setName('Backend')
+			.setDesc('Run prompts through the Claude Code CLI (desktop only) or send them to an HTTP model server')
+			.addDropdown(dropdown => dropdown
+				.addOption('cli', 'Claude Code CLI')
+				.addOption('http', 'HTTP (OpenAI-compatible / Ollama)')
+				.setValue(this.plugin.settings.backend)
+				.onChange(async (value) => {
+					this.plugin.settings.backend = value as BackendType;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.backend === 'http') {
+			this.displayHttpSettings(containerEl);
+		} else {
+			this.displayCliSettings(containerEl);
+		}
 
-		contentEl.createEl('h2', {text: 'Quick Journal Entry'});
+		new Setting(containerEl)
+			.setName('Timeout (seconds)')
+			.setDesc('Stop waiting for the model after this many seconds (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('300')
+				.setValue(String(this.plugin.settings.timeoutSeconds))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 0) {
+						this.plugin.settings.timeoutSeconds = num;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-		// Large text area for entry
-		this.textArea = contentEl.createEl('textarea', {
-			cls: 'journal-entry-textarea',
-			placeholder: 'Write your journal entry here...\n\nThis will be saved to today\'s journal file and automatically analyzed for connections to other notes.'
-		});
+		new Setting(containerEl)
+			.setName('Concurrent Jobs')
+			.setDesc('How many model jobs run at the same time. Others wait in the queue shown in the status bar.')
+			.addText(text => text
+				.setPlaceholder('1')
+				.setValue(String(this.plugin.settings.jobConcurrency))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 1) {
+						this.plugin.settings.jobConcurrency = num;
+						await this.plugin.saveSettings();
+						this.plugin.jobQueue.startNext();
+					}
+				}));
 
-		// Style the text area
-		this.textArea.style.width = '100%';
-		this.textArea.style.height = '300px';
-		this.textArea.style.marginBottom = '1em';
-		this.textArea.style.padding = '0.5em';
-		this.textArea.style.fontSize = '1em';
-		this.textArea.style.fontFamily = 'inherit';
+		new Setting(containerEl)
+			.setName('Max Prompt Size (tokens)')
+			.setDesc('Larger date ranges are analyzed in batches and then synthesized. Set this below your model\'s context window.')
+			.addText(text => text
+				.setPlaceholder('24000')
+				.setValue(String(this.plugin.settings.maxPromptTokens))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= MIN_BATCH_TOKENS + PROMPT_OVERHEAD_TOKENS) {
+						this.plugin.settings.maxPromptTokens = num;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-		// Focus the text area
-		this.textArea.focus();
+		new Setting(containerEl)
+			.setName('Batch Strategy')
+			.setDesc('How to split large date ranges into batches')
+			.addDropdown(dropdown => dropdown
+				.addOption('week', 'By week (and size)')
+				.addOption('size', 'By size only')
+				.setValue(this.plugin.settings.batchStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.batchStrategy = value as BatchStrategy;
+					await this.plugin.saveSettings();
+				}));
 
-		// Button container
-		const buttonContainer = contentEl.createDiv({cls: 'modal-button-container'});
-		buttonContainer.style.display = 'flex';
-		buttonContainer.style.gap = '0.5em';
-		buttonContainer.style.justifyContent = 'flex-end';
+		new Setting(containerEl)
+			.setName('Cache Lifetime (days)')
+			.setDesc('Reuse analysis results for unchanged entries for this many days (0 disables the cache)')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.cacheTtlDays))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 0) {
+						this.plugin.settings.cacheTtlDays = num;
+						this.plugin.pruneAnalysisCache();
+						await this.plugin.saveSettings();
+					}
+				}))
+			.addButton(btn => btn
+				.setButtonText('Clear Cache')
+				.onClick(async () => {
+					await this.plugin.clearAnalysisCache();
+				}));
 
-		// Save & Analyze button (primary action)
-		const analyzeButton = buttonContainer.createEl('button', {
-			text: 'Save & Analyze',
-			cls: 'mod-cta'
-		});
-		analyzeButton.addEventListener('click', async () => {
-			const entry = this.textArea.value.trim();
-			if (entry.length === 0) {
-				new Notice('Please enter some text');
-				return;
-			}
+		// Run history section
+		containerEl.createEl('h3', {text: 'Run History'});
 
-			this.close();
-			await this.plugin.quickJournalWithAnalysis(entry);
-		});
+		new Setting(containerEl)
+			.setName('Retention (days)')
+			.setDesc('Drop run history records older than this many days when the plugin loads (0 keeps every record)')
+			.addText(text => text
+				.setPlaceholder('90')
+				.setValue(String(this.plugin.settings.runHistoryDays))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 0) {
+						this.plugin.settings.runHistoryDays = num;
+						await this.plugin.saveSettings();
+					}
+				}))
+			.addButton(btn => btn
+				.setButtonText('Open Run History')
+				.onClick(() => {
+					this.plugin.activateView(RUN_HISTORY_VIEW_TYPE);
+				}));
 
-		// Save Only button (secondary action)
-		const saveButton = buttonContainer.createEl('button', {text: 'Save Only'});
-		saveButton.addEventListener('click', async () => {
-			const entry = this.textArea.value.trim();
-			if (entry.length === 0) {
-				new Notice('Please enter some text');
-				return;
-			}
+		new Setting(containerEl)
+			.setName('Store Prompts and Responses')
+			.setDesc('Keep the full text sent to and received from the model in each record, after redaction. Prompts contain journal text.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.storeRunContent)
+				.onChange(async (value) => {
+					this.plugin.settings.storeRunContent = value;
+					await this.plugin.saveSettings();
+				}));
 
-			this.close();
+		// Scheduled review section
+		containerEl.createEl('h3', {text: 'Scheduled Reviews'});
 
-			const progressModal = new ProgressModal(this.app);
-			progressModal.open();
+		new Setting(containerEl)
+			.setName('Weekly Review')
+			.setDesc('Analyze the previous week (Monday to Sunday) every week')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.weeklyReviewEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.weeklyReviewEnabled = value;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => {
+				['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+					.forEach((name, index) => dropdown.addOption(String(index), name));
+				dropdown
+					.setValue(String(this.plugin.settings.weeklyReviewDay))
+					.onChange(async (value) => {
+						this.plugin.settings.weeklyReviewDay = parseInt(value);
+						await this.plugin.saveSettings();
+					});
+			});
 
-			try {
-				progressModal.updateProgress('Expanding journal entry with AI...\n(This may take 30-60 seconds)');
-				const expandedEntry = await this.plugin.expandJournalEntry(entry);
+		new Setting(containerEl)
+			.setName('Monthly Review')
+			.setDesc('Analyze the previous month on the 1st of each month')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.monthlyReviewEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.monthlyReviewEnabled = value;
+					await this.plugin.saveSettings();
+				}));
 
-				progressModal.updateProgress('Saving journal entry...');
-				const journalFile = await this.plugin.saveJournalEntry(expandedEntry);
+		new Setting(containerEl)
+			.setName('Catch-up Limit')
+			.setDesc('When Obsidian was closed at a scheduled time, generate up to this many missed reviews of each kind')
+			.addText(text => text
+				.setPlaceholder('4')
+				.setValue(String(this.plugin.settings.scheduleCatchUpLimit))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 1) {
+						this.plugin.settings.scheduleCatchUpLimit = num;
+						await this.plugin.saveSettings();
+					}
+				}));
 
-				progressModal.close();
-				new Notice('Journal entry saved!');
-				await this.app.workspace.getLeaf().openFile(journalFile);
-			} catch (error) {
-				progressModal.close();
-				new Notice(`Error saving entry: ${error.message}`);
-			}
-		});
+		// Mood timeline section
+		containerEl.createEl('h3', {text: 'Mood Timeline'});
 
-		// Cancel button
-		const cancelButton = buttonContainer.createEl('button', {text: 'Cancel'});
-		cancelButton.addEventListener('click', () => this.close());
+		new Setting(containerEl)
+			.setName('Score Dimensions')
+			.setDesc('Comma-separated dimensions scored per entry and plotted in the timeline')
+			.addText(text => text
+				.setPlaceholder('mood, energy, stress, sleep')
+				.setValue(this.plugin.settings.scoreDimensions)
+				.onChange(async (value) => {
+					this.plugin.settings.scoreDimensions = value;
+					await this.plugin.saveSettings();
+				}));
 
-		// Handle Enter key with Ctrl/Cmd to submit
-		this.textArea.addEventListener('keydown', (event) => {
-			if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
-				event.preventDefault();
-				analyzeButton.click();
-			}
-		});
-	}
+		new Setting(containerEl)
+			.setName('Score Source')
+			.setDesc('Infer scores with the model, or only read scores you record by hand in each entry\'s frontmatter (e.g. "mood: 7")')
+			.addDropdown(dropdown => dropdown
+				.addOption('infer', 'Infer with the model')
+				.addOption('frontmatter', 'Recorded in frontmatter')
+				.setValue(this.plugin.settings.scoreSource)
+				.onChange(async (value) => {
+					this.plugin.settings.scoreSource = value as ScoreSource;
+					await this.plugin.saveSettings();
+				}));
 
-	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
-	}
-}
+		new Setting(containerEl)
+			.setName('Store Inferred Scores In')
+			.setDesc('Write inferred scores to each entry\'s frontmatter, or keep them in the plugin\'s data')
+			.addDropdown(dropdown => dropdown
+				.addOption('frontmatter', 'Entry frontmatter')
+				.addOption('data', 'Plugin data')
+				.setValue(this.plugin.settings.scoreStorage)
+				.onChange(async (value) => {
+					this.plugin.settings.scoreStorage = value as ScoreStorage;
+					await this.plugin.saveSettings();
+				}));
 
-class JournalAnalyzerSettingTab extends PluginSettingTab {
-	plugin: JournalAnalyzerPlugin;
+		// Entity index section
+		containerEl.createEl('h3', {text: 'Entity Index'});
 
-	constructor(app: App, plugin: JournalAnalyzerPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+		new Setting(containerEl)
+			.setName('Entity Folder')
+			.setDesc('Where "Extract Entities" creates one index note per person, organization, place and project')
+			.addText(text => text
+				.setPlaceholder('entities')
+				.setValue(this.plugin.settings.entityFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.entityFolder = value.trim() || DEFAULT_SETTINGS.entityFolder;
+					await this.plugin.saveSettings();
+				}));
 
-	display(): void {
-		const {containerEl} = this;
+		new Setting(containerEl)
+			.setName('Entities')
+			.setDesc(`${Object.keys(this.plugin.entityIndex.entities).length} entities extracted`)
+			.addButton(btn => btn
+				.setButtonText('Rename or Merge')
+				.onClick(() => {
+					new EntityManagerModal(this.app, this.plugin).open();
+				}));
 
-		containerEl.empty();
+		// Privacy section
+		containerEl.createEl('h3', {text: 'Privacy'});
 
-		containerEl.createEl('h2', {text: 'Journal Analyzer Settings'});
+		containerEl.createEl('p', {
+			text: `Notes with "${ANALYZE_FIELD}: false" in frontmatter or tagged ${PRIVATE_TAG} are never sent to the model, and neither is text wrapped in %%private%% ... %%. Run "Preview What Will Be Sent" to check a prompt.`,
+			cls: 'setting-item-description'
+		});
 
 		new Setting(containerEl)
-			.setName('Journal Folder')
-			.setDesc('Path to your journal folder (relative to vault root)')
+			.setName('Private Headings')
+			.setDesc('Comma-separated headings whose sections are stripped before sending, e.g. "Health, Finances"')
 			.addText(text => text
-				.setPlaceholder('journal')
-				.setValue(this.plugin.settings.journalFolder)
+				.setPlaceholder('Health, Finances')
+				.setValue(this.plugin.settings.privateHeadings)
 				.onChange(async (value) => {
-					this.plugin.settings.journalFolder = value;
+					this.plugin.settings.privateHeadings = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Meta Folder')
-			.setDesc('Where to save analysis notes')
-			.addText(text => text
-				.setPlaceholder('journal/meta')
-				.setValue(this.plugin.settings.metaFolder)
+			.setName('Redaction List')
+			.setDesc('One per line: names of a person, comma-separated (sent as PERSON_1, PERSON_2...), or a /regex/ whose matches are sent as REDACTED_1, REDACTED_2.... The original text is restored in the results.')
+			.addTextArea(text => text
+				.setPlaceholder('Sam Kim, Sam, Sam K.\n/\\d{4}-\\d{4}-\\d{4}-\\d{4}/')
+				.setValue(this.plugin.settings.redactionList)
 				.onChange(async (value) => {
-					this.plugin.settings.metaFolder = value;
+					this.plugin.settings.redactionList = value;
 					await this.plugin.saveSettings();
 				}));
 
+		// Prompt template section
+		containerEl.createEl('h3', {text: 'Prompt Templates'});
+
 		new Setting(containerEl)
-			.setName('Default Days to Analyze')
-			.setDesc('Number of days to include in recent analysis')
+			.setName('Template Folder')
+			.setDesc(`Notes named ${PROMPT_KINDS.join(', ')} here replace the built-in prompts. Other notes starting with "analysis" are extra analysis templates.`)
 			.addText(text => text
-				.setPlaceholder('30')
-				.setValue(String(this.plugin.settings.daysToAnalyze))
+				.setPlaceholder('templates/journal-analyzer')
+				.setValue(this.plugin.settings.promptTemplateFolder)
 				.onChange(async (value) => {
-					this.plugin.settings.daysToAnalyze = parseInt(value) || 30;
+					this.plugin.settings.promptTemplateFolder = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Claude Code Path')
-			.setDesc('Path to Claude Code CLI (e.g., "claude" if in PATH)')
+			.setName('Default Analysis Template')
+			.setDesc('Template used by "Analyze Recent Journal Entries" and "Analyze Journal Date Range". Variables: {{startDate}}, {{endDate}}, {{entries}}, {{jsonFormat}}.')
 			.addText(text => text
-				.setPlaceholder('claude')
-				.setValue(this.plugin.settings.claudeCodePath)
+				.setPlaceholder('analysis')
+				.setValue(this.plugin.settings.analysisTemplate)
 				.onChange(async (value) => {
-					this.plugin.settings.claudeCodePath = value;
+					this.plugin.settings.analysisTemplate = value.trim() || DEFAULT_SETTINGS.analysisTemplate;
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Reset Templates')
+			.setDesc(`Write the built-in prompts to the template folder, replacing ${PROMPT_KINDS.join(', ')}`)
+			.addButton(btn => btn
+				.setButtonText('Reset to Default')
+				.setWarning()
+				.onClick(() => {
+					new ConfirmModal(
+						this.app,
+						'Reset Prompt Templates',
+						`This overwrites ${PROMPT_KINDS.map(kind => `${kind}.md`).join(', ')} in ${this.plugin.settings.promptTemplateFolder} with the built-in prompts.`,
+						'Reset',
+						() => this.plugin.resetPromptTemplates()
+					).open();
+				}));
+
 		// Connection settings section
 		containerEl.createEl('h3', {text: 'Knowledge Graph Connector'});
 
@@ -979,5 +7462,168 @@ class JournalAnalyzerSettingTab extends PluginSettingTab {
 					this.plugin.settings.connectionTypes = value.split(',').map(s => s.trim()).filter(s => s.length > 0);
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Link Style')
+			.setDesc('How accepted suggestions are added to the note')
+			.addDropdown(dropdown => dropdown
+				.addOption('alias', 'Link the text: [[target|original text]]')
+				.addOption('related', 'Append to a "Related:" line')
+				.setValue(this.plugin.settings.linkInsertMode)
+				.onChange(async (value) => {
+					this.plugin.settings.linkInsertMode = value as LinkInsertMode;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reciprocal Links')
+			.setDesc('Also record accepted links in the target note, with the reason and connection type')
+			.addDropdown(dropdown => dropdown
+				.addOption('off', 'Off')
+				.addOption('section', 'In a "## Related" section')
+				.addOption('frontmatter', 'In a frontmatter "related" list')
+				.setValue(this.plugin.settings.reciprocalLinks)
+				.onChange(async (value) => {
+					this.plugin.settings.reciprocalLinks = value as ReciprocalLinkMode;
+					await this.plugin.saveSettings();
+				}));
+
+		const ledgerSize = Object.keys(this.plugin.connectionLedger).length;
+		new Setting(containerEl)
+			.setName('Connection Decisions')
+			.setDesc(`${ledgerSize} accepted or rejected ${ledgerSize === 1 ? 'suggestion' : 'suggestions'}. These are never suggested again.`)
+			.addButton(btn => btn
+				.setButtonText('Review')
+				.onClick(() => {
+					new ConnectionLedgerModal(this.app, this.plugin).open();
+				}))
+			.addButton(btn => btn
+				.setButtonText('Clear All')
+				.setWarning()
+				.onClick(() => {
+					new ConfirmModal(
+						this.app,
+						'Clear Connection Decisions',
+						'Previously accepted and rejected suggestions may be suggested again.',
+						'Clear',
+						async () => {
+							await this.plugin.clearConnectionLedger();
+							this.display();
+						}
+					).open();
+				}));
+
+		new Setting(containerEl)
+			.setName('Candidate Notes')
+			.setDesc('Number of best-matching notes from the local search index to send with each connection request')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.connectionCandidateCount))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num > 0) {
+						this.plugin.settings.connectionCandidateCount = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Passage Length')
+			.setDesc(`Maximum characters per passage; the ${PASSAGES_PER_CANDIDATE} best-matching passages of each candidate note are sent`)
+			.addText(text => text
+				.setPlaceholder('600')
+				.setValue(String(this.plugin.settings.connectionPassageLength))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (num >= 100) {
+						this.plugin.settings.connectionPassageLength = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	displayCliSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Claude Code Path')
+			.setDesc('Path to Claude Code CLI (e.g., "claude" if in PATH). Run directly, not through a shell.')
+			.addText(text => text
+				.setPlaceholder('claude')
+				.setValue(this.plugin.settings.claudeCodePath)
+				.onChange(async (value) => {
+					this.plugin.settings.claudeCodePath = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Claude Code Arguments')
+			.setDesc('Extra arguments passed to the CLI (e.g., "-p"). Quote arguments that contain spaces. The prompt is sent on stdin.')
+			.addText(text => text
+				.setPlaceholder('-p')
+				.setValue(this.plugin.settings.claudeCodeArgs)
+				.onChange(async (value) => {
+					this.plugin.settings.claudeCodeArgs = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	displayHttpSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Endpoint URL')
+			.setDesc('Full URL of the chat completions or generate endpoint')
+			.addText(text => text
+				.setPlaceholder('http://localhost:11434/v1/chat/completions')
+				.setValue(this.plugin.settings.httpEndpoint)
+				.onChange(async (value) => {
+					this.plugin.settings.httpEndpoint = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API Format')
+			.setDesc('Request and response shape the server expects')
+			.addDropdown(dropdown => dropdown
+				.addOption('openai', 'OpenAI chat completions (llama.cpp, LM Studio, Ollama /v1)')
+				.addOption('ollama', 'Ollama /api/generate')
+				.setValue(this.plugin.settings.httpApiFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.httpApiFormat = value as HttpApiFormat;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Model name sent with each request')
+			.addText(text => text
+				.setPlaceholder('llama3.1')
+				.setValue(this.plugin.settings.httpModel)
+				.onChange(async (value) => {
+					this.plugin.settings.httpModel = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Headers')
+			.setDesc('Extra request headers, one per line (e.g., "Authorization: Bearer ...")')
+			.addTextArea(text => text
+				.setPlaceholder('Authorization: Bearer sk-...')
+				.setValue(this.plugin.settings.httpHeaders)
+				.onChange(async (value) => {
+					this.plugin.settings.httpHeaders = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Temperature')
+			.setDesc('Sampling temperature (0-2)')
+			.addText(text => text
+				.setPlaceholder('0.7')
+				.setValue(String(this.plugin.settings.httpTemperature))
+				.onChange(async (value) => {
+					const num = parseFloat(value);
+					if (num >= 0 && num <= 2) {
+						this.plugin.settings.httpTemperature = num;
+						await this.plugin.saveSettings();
+					}
+				}));
 	}
 }